@@ -7,63 +7,85 @@ import dynamic from 'next/dynamic';
 import AnalysisControls from '@/components/interaction-analyzer/AnalysisControls';
 import ProgressStatus from '@/components/interaction-analyzer/ProgressStatus';
 import InteractionTables from '@/components/interaction-analyzer/InteractionTables';
+import ValidationPanel from '@/components/interaction-analyzer/ValidationPanel';
+import ChainGroupSelector from '@/components/interaction-analyzer/ChainGroupSelector';
+import InterfaceResults from '@/components/interaction-analyzer/InterfaceResults';
 import {
   AnalysisParams,
   AnalysisResult,
   AnalysisStatus,
+  ChainGroups,
+  InterfaceResult,
   ProgressUpdate,
+  StructureChain,
   WorkerRequest,
   WorkerResponse,
 } from '@/src/types/interaction';
+import { DEFAULT_ANALYSIS_PARAMS, detectStructureFormat } from '@/src/analysis/analyze';
+import { listChains } from '@/src/analysis/interface';
+import { readFileBytes } from '@/src/utils/mmcifToPdb';
 
-const defaultParams: AnalysisParams = {
-  bindingSiteDistance: 7.5,
-  hydrophobicMaxDist: 4.0,
-  hbondMaxDist: 3.5,
-  saltBridgeMaxDist: 5.5,
-  waterBridgeMaxDist: 4.1,
-  piStackingMaxDist: 6.0,
-  piCationMaxDist: 6.0,
-  halogenBondMaxDist: 4.0,
+type AnalysisMode = 'ligand' | 'interface';
+
+const MODE_LABELS: Record<AnalysisMode, string> = {
+  ligand: '配体结合位点',
+  interface: '蛋白–蛋白 / 多肽界面',
 };
 
+/**
+ * Read a structure file for the analyzer (gzip is decompressed; BinaryCIF stays binary)
+ */
+async function readStructure(file: File) {
+  const format = detectStructureFormat(file.name);
+  const bytes = await readFileBytes(file);
+  const content = format === 'bcif' ? bytes : new TextDecoder('utf-8').decode(bytes);
+  return { format, content };
+}
+
 export default function InteractionAnalyzerPage() {
-  const [params, setParams] = useState<AnalysisParams>(defaultParams);
+  const [mode, setMode] = useState<AnalysisMode>('ligand');
+  const [params, setParams] = useState<AnalysisParams>(DEFAULT_ANALYSIS_PARAMS);
   const [status, setStatus] = useState<AnalysisStatus>('idle');
   const [progress, setProgress] = useState<number>(0);
   const [message, setMessage] = useState<string>('');
   const [currentSite, setCurrentSite] = useState<number | undefined>();
   const [totalSites, setTotalSites] = useState<number | undefined>();
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [interfaceResult, setInterfaceResult] = useState<InterfaceResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [chains, setChains] = useState<StructureChain[] | null>(null);
+  const [chainGroups, setChainGroups] = useState<ChainGroups>({ receptor: [], partner: [] });
 
   const workerRef = useRef<Worker | null>(null);
 
-  const handleAnalyze = useCallback(async (file: File) => {
+  const handleAnalyze = useCallback(async (file: File, paeFile: File | null) => {
     // Reset state
     setStatus('parsing');
     setProgress(0);
     setMessage('Initializing...');
     setError(null);
     setResult(null);
+    setInterfaceResult(null);
 
     try {
-      // Read file
-      const pdbContent = await file.text();
+      const { format, content } = await readStructure(file);
+      const pae = paeFile ? await paeFile.text() : undefined;
 
       // Create worker
       if (workerRef.current) {
         workerRef.current.terminate();
       }
 
-      // Get basePath from config (default: /BioTender)
-      const basePath = '/BioTender';
-      const workerUrl = `${basePath}/workers/interactionWorker.js`;
-      workerRef.current = new Worker(workerUrl, { type: 'classic' });
+      // Module worker bundled from the shared analysis engine
+      workerRef.current = new Worker(
+        new URL('../../../src/workers/interactionWorker.ts', import.meta.url),
+        { type: 'module' }
+      );
 
       // Set up message handler
       workerRef.current.onmessage = (e: MessageEvent<WorkerResponse>) => {
-        const { type, data, error: workerError } = e.data;
+        const { type, data, error: workerError, stack } = e.data;
 
         if (type === 'progress') {
           const progressData = data as ProgressUpdate;
@@ -73,8 +95,11 @@ export default function InteractionAnalyzerPage() {
           setCurrentSite(progressData.currentSite);
           setTotalSites(progressData.totalSites);
         } else if (type === 'result') {
-          const analysisResult = data as AnalysisResult;
-          setResult(analysisResult);
+          if (mode === 'interface') {
+            setInterfaceResult(data as InterfaceResult);
+          } else {
+            setResult(data as AnalysisResult);
+          }
           setStatus('complete');
           setProgress(100);
           setMessage('Analysis complete');
@@ -85,7 +110,6 @@ export default function InteractionAnalyzerPage() {
           }
         } else if (type === 'error') {
           const errorMsg = workerError || 'Unknown error';
-          const stack = (data as any)?.stack;
           const fullError = stack ? `${errorMsg}\n\nStack:\n${stack}` : errorMsg;
           setError(fullError);
           setStatus('error');
@@ -120,13 +144,17 @@ export default function InteractionAnalyzerPage() {
 
       // Send analysis request
       const request: WorkerRequest = {
-        type: 'analyze',
-        pdbContent,
+        type: mode === 'interface' ? 'interface' : 'analyze',
+        content,
+        format,
         filename: file.name,
         params,
+        pae,
+        chainGroups: mode === 'interface' ? chainGroups : undefined,
       };
 
-      workerRef.current.postMessage(request);
+      // Transfer binary content instead of copying it
+      workerRef.current.postMessage(request, typeof content === 'string' ? [] : [content]);
 
     } catch (err) {
       console.error('Analysis error:', err);
@@ -134,12 +162,73 @@ export default function InteractionAnalyzerPage() {
       setStatus('error');
       setProgress(0);
     }
-  }, [params]);
+  }, [params, mode, chainGroups]);
 
   const handleParamsChange = useCallback((newParams: AnalysisParams) => {
     setParams(newParams);
   }, []);
 
+  // List chains for interface mode; protein chains face DNA/RNA chains when both are present,
+  // otherwise the first chain is the default receptor and the rest the partner
+  const loadChains = async (structureFile: File) => {
+    setChains(null);
+    try {
+      const { format, content } = await readStructure(structureFile);
+      const structureChains = listChains(typeof content === 'string' ? content : new Uint8Array(content), format);
+      const isNucleicAcid = (c: StructureChain) => c.polymer === 'DNA' || c.polymer === 'RNA';
+      const nucleicAcids = structureChains.filter(isNucleicAcid);
+      const proteins = structureChains.filter(c => c.polymer === 'protein');
+      setChains(structureChains);
+      setChainGroups(nucleicAcids.length > 0 && proteins.length > 0
+        ? { receptor: proteins.map(c => c.chain), partner: nucleicAcids.map(c => c.chain) }
+        : {
+          receptor: structureChains.slice(0, 1).map(c => c.chain),
+          partner: structureChains.slice(1).map(c => c.chain),
+        });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    }
+  };
+
+  const handleFileSelect = (selected: File) => {
+    setFile(selected);
+    setError(null);
+    if (mode === 'interface') {
+      loadChains(selected);
+    } else {
+      setChains(null);
+    }
+  };
+
+  const handleModeChange = (newMode: AnalysisMode) => {
+    if (newMode === mode) return;
+    setMode(newMode);
+    setResult(null);
+    setInterfaceResult(null);
+    setError(null);
+    setStatus('idle');
+    if (newMode === 'interface' && file) {
+      loadChains(file);
+    }
+  };
+
+  // Full result, including the validation report, as JSON (same layout as the CLI output)
+  const handleExport = (data: AnalysisResult | InterfaceResult) => {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const baseName = (data.filename ?? 'structure').replace(/\.(pdb|ent|cif|mmcif|bcif)(\.gz)?$/i, '');
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}-${'chainGroups' in data ? 'interface' : 'interactions'}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const isAnalyzing = status !== 'idle' && status !== 'complete' && status !== 'error';
+
   return (
     <>
       {/* Navigation */}
@@ -186,14 +275,45 @@ export default function InteractionAnalyzerPage() {
             </p>
           </div>
 
+          {/* Mode Switch */}
+          <div className="flex gap-2 mb-6">
+            {(Object.keys(MODE_LABELS) as AnalysisMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => handleModeChange(option)}
+                disabled={isAnalyzing}
+                className={`px-4 py-2 rounded-lg transition-colors font-medium disabled:opacity-50 ${
+                  mode === option
+                    ? 'bg-cyan-600 text-white'
+                    : 'bg-slate-700 hover:bg-slate-600 text-gray-300'
+                }`}
+              >
+                {MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
           {/* Analysis Controls */}
           <AnalysisControls
             params={params}
             onParamsChange={handleParamsChange}
             onAnalyze={handleAnalyze}
-            isAnalyzing={status !== 'idle' && status !== 'complete' && status !== 'error'}
+            onFileSelect={handleFileSelect}
+            isAnalyzing={isAnalyzing}
+            interfaceMode={mode === 'interface'}
+            canAnalyze={mode === 'ligand' || (chainGroups.receptor.length > 0 && chainGroups.partner.length > 0)}
           />
 
+          {/* Chain Groups */}
+          {mode === 'interface' && chains && (
+            <ChainGroupSelector
+              chains={chains}
+              groups={chainGroups}
+              onChange={setChainGroups}
+              disabled={isAnalyzing}
+            />
+          )}
+
           {/* Progress Status */}
           <ProgressStatus
             status={status}
@@ -221,7 +341,15 @@ export default function InteractionAnalyzerPage() {
           {/* Results Summary */}
           {result && (
             <div className="glass rounded-lg p-6 mb-6">
-              <h2 className="text-xl font-semibold text-white mb-4">分析结果摘要</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-white">分析结果摘要</h2>
+                <button
+                  onClick={() => handleExport(result)}
+                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm font-medium"
+                >
+                  导出 JSON
+                </button>
+              </div>
               <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
                 <div className="bg-slate-800/50 rounded-lg p-4">
                   <p className="text-sm text-gray-400 mb-1">总原子数</p>
@@ -235,6 +363,23 @@ export default function InteractionAnalyzerPage() {
                   <p className="text-sm text-gray-400 mb-1">结合位点</p>
                   <p className="text-2xl font-bold text-green-400">{result.stats.totalSites}</p>
                 </div>
+                {result.stats.totalModels > 1 && (
+                  <div className="bg-slate-800/50 rounded-lg p-4">
+                    <p className="text-sm text-gray-400 mb-1">模型数</p>
+                    <p className="text-2xl font-bold text-white">{result.stats.totalModels}</p>
+                  </div>
+                )}
+                {result.confidence && (
+                  <div className="bg-slate-800/50 rounded-lg p-4">
+                    <p className="text-sm text-gray-400 mb-1">平均 pLDDT</p>
+                    <p className={`text-2xl font-bold ${result.confidence.meanPlddt < 70 ? 'text-amber-400' : 'text-sky-400'}`}>
+                      {result.confidence.meanPlddt}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {result.confidence.lowPlddtResidues} 个低置信残基{result.confidence.pae && ' · 含 PAE'}
+                    </p>
+                  </div>
+                )}
                 <div className="bg-slate-800/50 rounded-lg p-4">
                   <p className="text-sm text-gray-400 mb-1">疏水作用</p>
                   <p className="text-2xl font-bold text-blue-400">{result.stats.totalHydrophobic}</p>
@@ -243,6 +388,30 @@ export default function InteractionAnalyzerPage() {
                   <p className="text-sm text-gray-400 mb-1">氢键</p>
                   <p className="text-2xl font-bold text-purple-400">{result.stats.totalHbond}</p>
                 </div>
+                <div className="bg-slate-800/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-400 mb-1">水桥</p>
+                  <p className="text-2xl font-bold text-cyan-400">{result.stats.totalWaterbridge}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-400 mb-1">盐桥</p>
+                  <p className="text-2xl font-bold text-pink-400">{result.stats.totalSaltbridge}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-400 mb-1">π-π 堆积</p>
+                  <p className="text-2xl font-bold text-orange-400">{result.stats.totalPistacking}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-400 mb-1">π-阳离子</p>
+                  <p className="text-2xl font-bold text-amber-400">{result.stats.totalPication}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-400 mb-1">卤键</p>
+                  <p className="text-2xl font-bold text-lime-400">{result.stats.totalHalogenbond}</p>
+                </div>
+                <div className="bg-slate-800/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-400 mb-1">金属配位</p>
+                  <p className="text-2xl font-bold text-teal-400">{result.stats.totalMetal}</p>
+                </div>
                 <div className="bg-slate-800/50 rounded-lg p-4">
                   <p className="text-sm text-gray-400 mb-1">分析时间</p>
                   <p className="text-2xl font-bold text-yellow-400">{result.stats.analysisTime}ms</p>
@@ -251,20 +420,31 @@ export default function InteractionAnalyzerPage() {
             </div>
           )}
 
+          {/* Interface Results */}
+          {interfaceResult && (
+            <InterfaceResults result={interfaceResult} onExport={() => handleExport(interfaceResult)} />
+          )}
+
+          {/* Structure Validation */}
+          {result?.validation && <ValidationPanel report={result.validation} />}
+
           {/* Interaction Tables */}
           {result && <InteractionTables siteInteractions={result.interactions} />}
 
           {/* Usage Instructions */}
-          {!result && (
+          {!result && !interfaceResult && (
             <div className="glass rounded-lg p-6">
               <h3 className="text-xl font-semibold text-white mb-4">使用说明</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 text-gray-300">
                 <div>
                   <h4 className="font-medium text-cyan-300 mb-2">上传文件</h4>
                   <ul className="list-disc list-inside space-y-1 text-sm">
-                    <li>支持 .pdb 格式文件</li>
+                    <li>支持 PDB (.pdb/.ent)、mmCIF (.cif/.mmcif) 与 BinaryCIF (.bcif) 文件，可为 .gz 压缩</li>
                     <li>文件应包含蛋白质和配体结构</li>
                     <li>配体应标记为 HETATM 记录</li>
+                    <li>默认只分析类药分子与辅因子，结晶添加剂、糖链和离子可在高级参数中启用</li>
+                    <li>共价相连的多个 HETATM 残基（如糖链）合并为一个配体，也可手动分组</li>
+                    <li>界面模式下选择受体与伙伴链，分析抗体–抗原、二聚体、多肽或蛋白–DNA/RNA 结合界面</li>
                   </ul>
                 </div>
                 <div>
@@ -273,7 +453,11 @@ export default function InteractionAnalyzerPage() {
                     <li>疏水相互作用 (Hydrophobic)</li>
                     <li>氢键 (Hydrogen Bonds)</li>
                     <li>水桥 (Water Bridges)</li>
-                    <li>更多类型即将推出...</li>
+                    <li>盐桥 (Salt Bridges)</li>
+                    <li>π-π 堆积 (Pi-Stacking)</li>
+                    <li>π-阳离子 (Pi-Cation)</li>
+                    <li>卤键 (Halogen Bonds)</li>
+                    <li>金属配位 (Metal Complexes)</li>
                   </ul>
                 </div>
                 <div>
@@ -1,16 +1,47 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import Link from 'next/link';
-import { convertMMCIFToPDB, readFileContent, ConversionResult } from '@/src/utils/mmcifToPdb';
+import {
+  convertMMCIFToPDB,
+  readFileContent,
+  readMMCIFStructure,
+  selectAtoms,
+  summarizeSelection,
+  summarizeStructure,
+  ConversionOptions,
+  ConversionResult,
+  MMCIFStructure,
+} from '@/src/utils/mmcifToPdb';
+import { convertPDBToMMCIF, PDBConversionResult } from '@/src/utils/pdbToMmcif';
+import { createZip } from '@/src/utils/zip';
+import SelectionPanel from '@/components/mmcif-to-pdb/SelectionPanel';
 
-type ConversionStatus = 'idle' | 'converting' | 'success' | 'error';
+type ConversionStatus = 'idle' | 'loading' | 'converting' | 'success' | 'error';
+type ConversionMode = 'mmcif-to-pdb' | 'pdb-to-mmcif';
+
+const VALID_EXTENSIONS: Record<ConversionMode, string[]> = {
+  'mmcif-to-pdb': ['.cif', '.mmcif', '.cif.gz', '.mmcif.gz'],
+  'pdb-to-mmcif': ['.pdb', '.ent', '.pdb.gz', '.ent.gz'],
+};
 
 export default function MmcifToPdbPage() {
+  const [mode, setMode] = useState<ConversionMode>('mmcif-to-pdb');
   const [file, setFile] = useState<File | null>(null);
   const [status, setStatus] = useState<ConversionStatus>('idle');
-  const [result, setResult] = useState<ConversionResult | null>(null);
+  const [result, setResult] = useState<ConversionResult | PDBConversionResult | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [splitLargeStructures, setSplitLargeStructures] = useState(true);
+  const [structure, setStructure] = useState<MMCIFStructure | null>(null);
+  const [selection, setSelection] = useState<ConversionOptions>({});
+
+  const summary = useMemo(() => (structure ? summarizeStructure(structure) : null), [structure]);
+
+  // Preview of what the current selection keeps
+  const preview = useMemo(
+    () => (structure ? summarizeSelection(selectAtoms(structure, selection)) : null),
+    [structure, selection]
+  );
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -22,7 +53,8 @@ export default function MmcifToPdbPage() {
     }
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  // Not memoized: validation depends on the current mode
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
@@ -31,7 +63,7 @@ export default function MmcifToPdbPage() {
       const droppedFile = e.dataTransfer.files[0];
       validateAndSetFile(droppedFile);
     }
-  }, []);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -40,8 +72,7 @@ export default function MmcifToPdbPage() {
   };
 
   const validateAndSetFile = (selectedFile: File) => {
-    const validExtensions = ['.cif', '.mmcif', '.cif.gz', '.mmcif.gz'];
-    const hasValidExtension = validExtensions.some(ext =>
+    const hasValidExtension = VALID_EXTENSIONS[mode].some(ext =>
       selectedFile.name.toLowerCase().endsWith(ext)
     );
 
@@ -49,25 +80,54 @@ export default function MmcifToPdbPage() {
       setStatus('error');
       setResult({
         success: false,
-        error: '不支持的文件格式。请上传 .cif 或 .mmcif 文件',
+        error: mode === 'mmcif-to-pdb'
+          ? '不支持的文件格式。请上传 .cif 或 .mmcif 文件'
+          : '不支持的文件格式。请上传 .pdb 或 .ent 文件',
       });
       return;
     }
 
     setFile(selectedFile);
-    setStatus('idle');
+    setStructure(null);
+    setSelection({});
     setResult(null);
+    if (mode === 'mmcif-to-pdb') {
+      loadStructure(selectedFile);
+    } else {
+      setStatus('idle');
+    }
+  };
+
+  // Parse the file up front so chains and models can be chosen before converting
+  const loadStructure = async (selectedFile: File) => {
+    setStatus('loading');
+    try {
+      const content = await readFileContent(selectedFile);
+      setStructure(readMMCIFStructure(content));
+      setStatus('idle');
+    } catch (error) {
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      setStatus('error');
+    }
   };
 
   const handleConvert = async () => {
-    if (!file) return;
+    if (!file || (mode === 'mmcif-to-pdb' && !structure)) return;
 
     setStatus('converting');
     setResult(null);
 
     try {
-      const content = await readFileContent(file);
-      const conversionResult = await convertMMCIFToPDB(content);
+      const conversionResult = mode === 'mmcif-to-pdb'
+        ? await convertMMCIFToPDB(structure!, {
+          ...selection,
+          splitLargeStructures,
+          bundleName: getBaseName(file),
+        })
+        : await convertPDBToMMCIF(await readFileContent(file));
 
       setResult(conversionResult);
       setStatus(conversionResult.success ? 'success' : 'error');
@@ -80,15 +140,32 @@ export default function MmcifToPdbPage() {
     }
   };
 
+  const getBaseName = (selectedFile: File) => selectedFile.name.replace(/\.(cif|mmcif|pdb|ent)(\.gz)?$/i, '');
+
+  const bundle = result && 'bundle' in result ? result.bundle : undefined;
+  const exceedsPdbLimits = result?.stats && 'exceedsPdbLimits' in result.stats && result.stats.exceedsPdbLimits;
+
   const handleDownload = () => {
-    if (!result?.pdbContent || !file) return;
+    if (!result || !file) return;
 
-    // Generate filename with .pdb extension
-    const baseName = file.name.replace(/\.(cif|mmcif)(\.gz)?$/i, '');
-    const fileName = `${baseName}.pdb`;
+    // Generate filename with .pdb or .cif extension, or .zip for a PDB-format bundle
+    const baseName = getBaseName(file);
+    let blob: Blob;
+    let fileName: string;
+    if (bundle) {
+      blob = createZip([...bundle.files, bundle.chainMapping]);
+      fileName = `${baseName}-pdb-bundle.zip`;
+    } else if ('pdbContent' in result && result.pdbContent) {
+      blob = new Blob([result.pdbContent], { type: 'text/plain' });
+      fileName = `${baseName}.pdb`;
+    } else if ('mmcifContent' in result && result.mmcifContent) {
+      blob = new Blob([result.mmcifContent], { type: 'text/plain' });
+      fileName = `${baseName}.cif`;
+    } else {
+      return;
+    }
 
     // Create blob and download
-    const blob = new Blob([result.pdbContent], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -101,10 +178,18 @@ export default function MmcifToPdbPage() {
 
   const handleReset = () => {
     setFile(null);
+    setStructure(null);
+    setSelection({});
     setStatus('idle');
     setResult(null);
   };
 
+  const handleModeChange = (newMode: ConversionMode) => {
+    if (newMode === mode) return;
+    handleReset();
+    setMode(newMode);
+  };
+
   return (
     <>
       {/* Navigation */}
@@ -135,13 +220,33 @@ export default function MmcifToPdbPage() {
           {/* Page Header */}
           <div className="mb-8">
             <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">
-              mmCIF → PDB Converter
+              {mode === 'mmcif-to-pdb' ? 'mmCIF → PDB Converter' : 'PDB → mmCIF Converter'}
             </h1>
             <p className="text-gray-400">
-              纯前端将 mmCIF 文件转换为 PDB 格式，支持 .cif/.mmcif 文件（以及 .cif.gz 压缩格式）
+              {mode === 'mmcif-to-pdb'
+                ? '纯前端将 mmCIF 文件转换为 PDB 格式，支持 .cif/.mmcif 文件（以及 .cif.gz 压缩格式）'
+                : '纯前端将 PDB 文件转换为 mmCIF 格式，支持 .pdb/.ent 文件（以及 .pdb.gz 压缩格式）'}
             </p>
           </div>
 
+          {/* Mode Switch */}
+          <div className="flex gap-2 mb-6">
+            {(['mmcif-to-pdb', 'pdb-to-mmcif'] as ConversionMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => handleModeChange(option)}
+                disabled={status === 'loading' || status === 'converting'}
+                className={`px-4 py-2 rounded-lg transition-colors font-medium disabled:opacity-50 ${
+                  mode === option
+                    ? 'bg-cyan-600 text-white'
+                    : 'bg-slate-700 hover:bg-slate-600 text-gray-300'
+                }`}
+              >
+                {option === 'mmcif-to-pdb' ? 'mmCIF → PDB' : 'PDB → mmCIF'}
+              </button>
+            ))}
+          </div>
+
           {/* Upload Area */}
           <div className="glass rounded-lg p-8 mb-6">
             <div
@@ -157,10 +262,10 @@ export default function MmcifToPdbPage() {
             >
               <input
                 type="file"
-                accept=".cif,.mmcif,.cif.gz,.mmcif.gz"
+                accept={VALID_EXTENSIONS[mode].join(',')}
                 onChange={handleFileChange}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                disabled={status === 'converting'}
+                disabled={status === 'loading' || status === 'converting'}
               />
 
               <div className="text-5xl mb-4">📁</div>
@@ -189,34 +294,61 @@ export default function MmcifToPdbPage() {
                     点击或拖拽文件到此处上传
                   </p>
                   <p className="text-sm text-gray-400">
-                    支持 .cif, .mmcif, .cif.gz, .mmcif.gz 格式
+                    支持 {VALID_EXTENSIONS[mode].join(', ')} 格式
                   </p>
                 </div>
               )}
             </div>
 
+            {/* Selection */}
+            {summary && preview && status !== 'success' && (
+              <SelectionPanel
+                summary={summary}
+                options={selection}
+                onOptionsChange={setSelection}
+                preview={preview}
+                disabled={status === 'converting'}
+              />
+            )}
+
             {/* Convert Button */}
-            {file && status !== 'success' && (
+            {file && (mode === 'pdb-to-mmcif' || structure) && status !== 'success' && (
               <div className="mt-6 text-center">
+                {mode === 'mmcif-to-pdb' && (
+                  <label className="flex items-center justify-center gap-2 mb-4 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={splitLargeStructures}
+                      onChange={(e) => setSplitLargeStructures(e.target.checked)}
+                      disabled={status === 'converting'}
+                      className="accent-cyan-500"
+                    />
+                    超出 PDB 格式限制时拆分为 PDB bundle（zip）
+                  </label>
+                )}
                 <button
                   onClick={handleConvert}
-                  disabled={status === 'converting'}
+                  disabled={status === 'converting' || preview?.atomCount === 0}
                   className="px-8 py-3 bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium text-lg"
                 >
-                  {status === 'converting' ? '转换中...' : 'Convert to PDB'}
+                  {status === 'converting' ? '转换中...' : mode === 'mmcif-to-pdb' ? 'Convert to PDB' : 'Convert to mmCIF'}
                 </button>
               </div>
             )}
           </div>
 
           {/* Status Messages */}
-          {status === 'converting' && (
+          {(status === 'loading' || status === 'converting') && (
             <div className="glass rounded-lg p-6 mb-6 border border-cyan-500/30">
               <div className="flex items-center gap-4">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
                 <div>
-                  <p className="text-lg font-medium text-white">正在转换...</p>
-                  <p className="text-sm text-gray-400">请稍候，正在解析 mmCIF 文件</p>
+                  <p className="text-lg font-medium text-white">{status === 'loading' ? '正在读取...' : '正在转换...'}</p>
+                  <p className="text-sm text-gray-400">
+                    {status === 'loading'
+                      ? '请稍候，正在解析 mmCIF 文件'
+                      : `请稍候，正在生成 ${mode === 'mmcif-to-pdb' ? 'PDB' : 'mmCIF'} 文件`}
+                  </p>
                 </div>
               </div>
             </div>
@@ -245,7 +377,16 @@ export default function MmcifToPdbPage() {
                 </svg>
                 <div className="flex-1">
                   <h3 className="text-lg font-semibold text-green-400 mb-2">转换成功!</h3>
-                  <p className="text-gray-300">mmCIF 文件已成功转换为 PDB 格式</p>
+                  <p className="text-gray-300">
+                    {bundle
+                      ? `结构超出 PDB 格式限制，已拆分为 ${bundle.files.length} 个 PDB 文件，并附链 ID 对照表`
+                      : mode === 'mmcif-to-pdb' ? 'mmCIF 文件已成功转换为 PDB 格式' : 'PDB 文件已成功转换为 mmCIF 格式'}
+                  </p>
+                  {!bundle && exceedsPdbLimits && (
+                    <p className="text-sm text-yellow-400 mt-1">
+                      结构超出 PDB 格式限制（99,999 个原子 / 62 条单字符链），部分程序可能无法读取该文件
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -282,8 +423,19 @@ export default function MmcifToPdbPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                   </svg>
-                  Download PDB
+                  {bundle ? 'Download PDB Bundle (.zip)' : mode === 'mmcif-to-pdb' ? 'Download PDB' : 'Download mmCIF'}
                 </button>
+                {mode === 'mmcif-to-pdb' && (
+                  <button
+                    onClick={() => {
+                      setStatus('idle');
+                      setResult(null);
+                    }}
+                    className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors font-medium"
+                  >
+                    调整选择
+                  </button>
+                )}
                 <button
                   onClick={handleReset}
                   className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors font-medium"
@@ -306,22 +458,24 @@ export default function MmcifToPdbPage() {
                     <li>.mmcif - mmCIF 格式结构文件</li>
                     <li>.cif.gz - Gzip 压缩的 CIF 文件</li>
                     <li>.mmcif.gz - Gzip 压缩的 mmCIF 文件</li>
+                    <li>.pdb / .ent（.gz）- PDB 格式结构文件（PDB → mmCIF 模式）</li>
                   </ul>
                 </div>
                 <div>
                   <h4 className="font-medium text-cyan-300 mb-2">转换说明</h4>
                   <ul className="list-disc list-inside space-y-1 text-sm">
                     <li>纯前端转换，文件不上传服务器</li>
-                    <li>保留所有原子坐标信息</li>
+                    <li>可按链、模型、实体类型筛选，并选择替代构象与氢原子的处理方式</li>
                     <li>自动处理链 ID、残基编号等</li>
                     <li>支持标准 PDB 格式输出</li>
+                    <li>PDB → mmCIF 根据 SEQRES、HETNAM、CRYST1 和 CONECT 生成实体、化学组分和连接信息</li>
                   </ul>
                 </div>
                 <div>
                   <h4 className="font-medium text-cyan-300 mb-2">限制说明</h4>
                   <ul className="list-disc list-inside space-y-1 text-sm">
-                    <li>链 ID 超过 1 个字符将被截断</li>
-                    <li>原子序号超过 99999 可能显示异常</li>
+                    <li>超过 99,999 个原子、62 条链或链 ID 多于 1 个字符时可拆分为 PDB bundle</li>
+                    <li>Bundle 内链 ID 重新编号，对照表见 chain-id-mapping.txt</li>
                     <li>部分高级 mmCIF 特性可能不完全支持</li>
                     <li>建议转换前检查结果文件</li>
                   </ul>
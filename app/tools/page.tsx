@@ -17,8 +17,8 @@ export default function ToolsPage() {
       icon: '🧬',
     },
     {
-      title: 'mmCIF → PDB',
-      description: '纯前端将 mmCIF 文件转换为 PDB 格式，支持 .cif/.mmcif 文件',
+      title: 'mmCIF ↔ PDB',
+      description: '纯前端在 mmCIF 与 PDB 格式之间互相转换，支持 .cif/.mmcif/.pdb 文件',
       path: '/tools/mmcif-to-pdb',
       icon: '🔄',
     },
@@ -1,63 +1,78 @@
 'use client';
 
 import { useState } from 'react';
-import { AnalysisParams } from '@/src/types/interaction';
+import { AnalysisParams, LigandClass } from '@/src/types/interaction';
+import { SITE_LIGAND_CLASSES } from '@/src/analysis/ligandClasses';
+import { DEFAULT_ANALYSIS_PARAMS } from '@/src/analysis/analyze';
 
 interface AnalysisControlsProps {
   params: AnalysisParams;
   onParamsChange: (params: AnalysisParams) => void;
-  onAnalyze: (file: File) => void;
+  onAnalyze: (file: File, paeFile: File | null) => void;
+  onFileSelect?: (file: File) => void;
   isAnalyzing: boolean;
+  interfaceMode?: boolean;  // Interface analysis takes no PAE file
+  canAnalyze?: boolean;     // False while required choices (e.g. chain groups) are missing
 }
 
-const defaultParams: AnalysisParams = {
-  bindingSiteDistance: 7.5,
-  hydrophobicMaxDist: 4.0,
-  hbondMaxDist: 3.5,
-  saltBridgeMaxDist: 5.5,
-  waterBridgeMaxDist: 4.1,
-  piStackingMaxDist: 6.0,
-  piCationMaxDist: 6.0,
-  halogenBondMaxDist: 4.0,
+export const LIGAND_CLASS_LABELS: Record<LigandClass, string> = {
+  druglike: '类药分子',
+  cofactor: '辅因子',
+  glycan: '糖链',
+  additive: '结晶添加剂',
+  ion: '离子',
+  water: '水',
 };
 
 export default function AnalysisControls({
   params,
   onParamsChange,
   onAnalyze,
+  onFileSelect,
   isAnalyzing,
+  interfaceMode = false,
+  canAnalyze = true,
 }: AnalysisControlsProps) {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [paeFile, setPaeFile] = useState<File | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       setSelectedFile(file);
+      onFileSelect?.(file);
     }
   };
 
   const handleAnalyze = () => {
     if (selectedFile) {
-      onAnalyze(selectedFile);
+      onAnalyze(selectedFile, interfaceMode ? null : paeFile);
     }
   };
 
-  const handleParamChange = (key: keyof AnalysisParams, value: number) => {
+  const handleParamChange = (key: keyof AnalysisParams, value: number | boolean) => {
     onParamsChange({ ...params, [key]: value });
   };
 
+  const toggleSiteClass = (ligandClass: LigandClass, checked: boolean) => {
+    const siteClasses = checked
+      ? [...params.siteClasses, ligandClass]
+      : params.siteClasses.filter(c => c !== ligandClass);
+    onParamsChange({ ...params, siteClasses });
+  };
+
   return (
     <div className="glass rounded-lg p-6 mb-6">
       <div className="flex flex-wrap gap-4 items-end">
         {/* File Upload */}
         <div className="flex-1 min-w-[300px]">
           <label className="block text-sm font-medium text-gray-300 mb-2">
-            上传 PDB 文件
+            上传结构文件 (PDB / mmCIF / BinaryCIF)
           </label>
           <input
             type="file"
-            accept=".pdb"
+            accept=".pdb,.ent,.cif,.mmcif,.bcif,.gz"
             onChange={handleFileChange}
             disabled={isAnalyzing}
             className="w-full px-4 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white file:mr-4 file:py-1 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-cyan-600 file:text-white hover:file:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed"
@@ -69,11 +84,32 @@ export default function AnalysisControls({
           )}
         </div>
 
+        {/* PAE Upload */}
+        {!interfaceMode && (
+          <div className="min-w-[240px]">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              PAE JSON（可选）
+            </label>
+            <input
+              type="file"
+              accept=".json"
+              onChange={(e) => setPaeFile(e.target.files?.[0] ?? null)}
+              disabled={isAnalyzing}
+              className="w-full px-4 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white file:mr-4 file:py-1 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-slate-600 file:text-white hover:file:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            {paeFile && (
+              <p className="mt-2 text-sm text-gray-400">
+                已选择: {paeFile.name}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Analyze Button */}
         <div>
           <button
             onClick={handleAnalyze}
-            disabled={!selectedFile || isAnalyzing}
+            disabled={!selectedFile || !canAnalyze || isAnalyzing}
             className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors font-medium disabled:bg-slate-700 disabled:text-gray-500 disabled:cursor-not-allowed"
           >
             {isAnalyzing ? '分析中...' : '分析'}
@@ -107,7 +143,7 @@ export default function AnalysisControls({
                 min="1"
                 max="20"
                 value={params.bindingSiteDistance}
-                onChange={(e) => handleParamChange('bindingSiteDistance', parseFloat(e.target.value) || 7.5)}
+                onChange={(e) => handleParamChange('bindingSiteDistance', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.bindingSiteDistance)}
                 disabled={isAnalyzing}
                 className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
@@ -124,7 +160,7 @@ export default function AnalysisControls({
                 min="1"
                 max="10"
                 value={params.hydrophobicMaxDist}
-                onChange={(e) => handleParamChange('hydrophobicMaxDist', parseFloat(e.target.value) || 4.0)}
+                onChange={(e) => handleParamChange('hydrophobicMaxDist', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.hydrophobicMaxDist)}
                 disabled={isAnalyzing}
                 className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
@@ -141,10 +177,38 @@ export default function AnalysisControls({
                 min="1"
                 max="10"
                 value={params.hbondMaxDist}
-                onChange={(e) => handleParamChange('hbondMaxDist', parseFloat(e.target.value) || 3.5)}
+                onChange={(e) => handleParamChange('hbondMaxDist', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.hbondMaxDist)}
+                disabled={isAnalyzing}
+                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
+              />
+            </div>
+
+            {/* H-bond Min Angle */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                氢键最小角度 (°)
+              </label>
+              <input
+                type="number"
+                step="5"
+                min="0"
+                max="180"
+                value={params.hbondMinAngle}
+                onChange={(e) => handleParamChange('hbondMinAngle', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.hbondMinAngle)}
                 disabled={isAnalyzing}
                 className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
+              <p className="mt-1 text-xs text-gray-500">仅在结构含显式氢原子时生效</p>
+              <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={params.addHydrogens}
+                  onChange={(e) => handleParamChange('addHydrogens', e.target.checked)}
+                  disabled={isAnalyzing}
+                  className="accent-cyan-500"
+                />
+                无氢结构自动补全极性氢
+              </label>
             </div>
 
             {/* Water Bridge Max Distance */}
@@ -158,16 +222,16 @@ export default function AnalysisControls({
                 min="1"
                 max="10"
                 value={params.waterBridgeMaxDist}
-                onChange={(e) => handleParamChange('waterBridgeMaxDist', parseFloat(e.target.value) || 4.1)}
+                onChange={(e) => handleParamChange('waterBridgeMaxDist', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.waterBridgeMaxDist)}
                 disabled={isAnalyzing}
                 className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
             </div>
 
-            {/* Salt Bridge Max Distance (Placeholder) */}
-            <div className="opacity-50">
+            {/* Salt Bridge Max Distance */}
+            <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                盐桥最大距离 (Å) *
+                盐桥最大距离 (Å)
               </label>
               <input
                 type="number"
@@ -175,16 +239,16 @@ export default function AnalysisControls({
                 min="1"
                 max="10"
                 value={params.saltBridgeMaxDist}
-                disabled
-                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white cursor-not-allowed"
+                onChange={(e) => handleParamChange('saltBridgeMaxDist', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.saltBridgeMaxDist)}
+                disabled={isAnalyzing}
+                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
-              <p className="text-xs text-gray-500 mt-1">* 即将推出</p>
             </div>
 
-            {/* Pi-Stacking Max Distance (Placeholder) */}
-            <div className="opacity-50">
+            {/* Pi-Stacking Max Distance */}
+            <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                π-π 堆积最大距离 (Å) *
+                π-π 堆积最大距离 (Å)
               </label>
               <input
                 type="number"
@@ -192,16 +256,16 @@ export default function AnalysisControls({
                 min="1"
                 max="10"
                 value={params.piStackingMaxDist}
-                disabled
-                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white cursor-not-allowed"
+                onChange={(e) => handleParamChange('piStackingMaxDist', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.piStackingMaxDist)}
+                disabled={isAnalyzing}
+                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
-              <p className="text-xs text-gray-500 mt-1">* 即将推出</p>
             </div>
 
-            {/* Pi-Cation Max Distance (Placeholder) */}
-            <div className="opacity-50">
+            {/* Pi-Cation Max Distance */}
+            <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                π-阳离子最大距离 (Å) *
+                π-阳离子最大距离 (Å)
               </label>
               <input
                 type="number"
@@ -209,16 +273,16 @@ export default function AnalysisControls({
                 min="1"
                 max="10"
                 value={params.piCationMaxDist}
-                disabled
-                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white cursor-not-allowed"
+                onChange={(e) => handleParamChange('piCationMaxDist', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.piCationMaxDist)}
+                disabled={isAnalyzing}
+                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
-              <p className="text-xs text-gray-500 mt-1">* 即将推出</p>
             </div>
 
-            {/* Halogen Bond Max Distance (Placeholder) */}
-            <div className="opacity-50">
+            {/* Halogen Bond Max Distance */}
+            <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                卤键最大距离 (Å) *
+                卤键最大距离 (Å)
               </label>
               <input
                 type="number"
@@ -226,11 +290,91 @@ export default function AnalysisControls({
                 min="1"
                 max="10"
                 value={params.halogenBondMaxDist}
-                disabled
-                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white cursor-not-allowed"
+                onChange={(e) => handleParamChange('halogenBondMaxDist', parseFloat(e.target.value) || DEFAULT_ANALYSIS_PARAMS.halogenBondMaxDist)}
+                disabled={isAnalyzing}
+                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
               />
-              <p className="text-xs text-gray-500 mt-1">* 即将推出</p>
+              <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={params.halogenBondIncludeFluorine}
+                  onChange={(e) => handleParamChange('halogenBondIncludeFluorine', e.target.checked)}
+                  disabled={isAnalyzing}
+                  className="accent-cyan-500"
+                />
+                包含氟原子 (F)
+              </label>
             </div>
+
+            {/* Predicted models */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                预测模型
+              </label>
+              <label className="flex items-center gap-2 py-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={params.bFactorIsPlddt}
+                  onChange={(e) => handleParamChange('bFactorIsPlddt', e.target.checked)}
+                  disabled={isAnalyzing}
+                  className="accent-cyan-500"
+                />
+                B 因子为 pLDDT
+              </label>
+              <p className="mt-1 text-xs text-gray-500">AlphaFold / ColabFold 文件头或 ModelCIF 会自动识别</p>
+            </div>
+
+            {/* Ligand classes analyzed as binding sites */}
+            {!interfaceMode && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  作为结合位点的配体类别
+                </label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 py-2">
+                  {SITE_LIGAND_CLASSES.map(ligandClass => (
+                    <label key={ligandClass} className="flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={params.siteClasses.includes(ligandClass)}
+                        onChange={(e) => toggleSiteClass(ligandClass, e.target.checked)}
+                        disabled={isAnalyzing}
+                        className="accent-cyan-500"
+                      />
+                      {LIGAND_CLASS_LABELS[ligandClass]}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">按内置组分字典分类，如 GOL、EDO、PEG、SO4、DMS 为结晶添加剂</p>
+              </div>
+            )}
+
+            {/* Multi-residue ligands */}
+            {!interfaceMode && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  多残基配体
+                </label>
+                <label className="flex items-center gap-2 py-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={params.mergeBondedLigands}
+                    onChange={(e) => handleParamChange('mergeBondedLigands', e.target.checked)}
+                    disabled={isAnalyzing}
+                    className="accent-cyan-500"
+                  />
+                  合并共价相连的 HETATM 残基（如 NAG-NAG-MAN 糖链）
+                </label>
+                <textarea
+                  rows={2}
+                  value={params.ligandGroups.join('\n')}
+                  onChange={(e) => onParamsChange({ ...params, ligandGroups: e.target.value.split('\n') })}
+                  disabled={isAnalyzing}
+                  placeholder="手动分组，每行一组，如 A:401 A:402 A:403"
+                  className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
+                />
+                <p className="mt-1 text-xs text-gray-500">手动分组中的残基（链:残基号）优先于自动合并</p>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,74 @@
+'use client';
+
+import { ChainGroups, PolymerType, StructureChain } from '@/src/types/interaction';
+
+interface ChainGroupSelectorProps {
+  chains: StructureChain[];
+  groups: ChainGroups;
+  onChange: (groups: ChainGroups) => void;
+  disabled: boolean;
+}
+
+const GROUP_LABELS: Record<keyof ChainGroups, string> = {
+  receptor: '受体',
+  partner: '伙伴',
+};
+
+const POLYMER_LABELS: Record<PolymerType, string> = {
+  protein: '蛋白',
+  DNA: 'DNA',
+  RNA: 'RNA',
+  other: '其他',
+};
+
+export default function ChainGroupSelector({ chains, groups, onChange, disabled }: ChainGroupSelectorProps) {
+  // A chain belongs to at most one group: adding it to one removes it from the other
+  const toggle = (group: keyof ChainGroups, chain: string) => {
+    const other: keyof ChainGroups = group === 'receptor' ? 'partner' : 'receptor';
+    const selected = groups[group].includes(chain);
+    onChange({
+      ...groups,
+      [group]: selected ? groups[group].filter(c => c !== chain) : [...groups[group], chain],
+      [other]: groups[other].filter(c => c !== chain),
+    });
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1 rounded-md text-sm border transition-colors disabled:opacity-50 ${
+      selected
+        ? 'bg-cyan-600/30 border-cyan-500 text-cyan-200'
+        : 'bg-slate-800/50 border-slate-600 text-gray-400 hover:border-slate-500'
+    }`;
+
+  return (
+    <div className="glass rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold text-white mb-4">选择界面两侧的链</h3>
+      <div className="space-y-4">
+        {(Object.keys(GROUP_LABELS) as (keyof ChainGroups)[]).map(group => (
+          <div key={group}>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              {GROUP_LABELS[group]} ({groups[group].length})
+            </label>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {chains.map(({ chain, residueCount, polymer }) => (
+                <button
+                  key={chain}
+                  onClick={() => toggle(group, chain)}
+                  disabled={disabled}
+                  title={`${POLYMER_LABELS[polymer]}，${residueCount} 个残基`}
+                  className={chipClass(groups[group].includes(chain))}
+                >
+                  {chain}
+                  {polymer === 'DNA' || polymer === 'RNA' ? <span className="ml-1 text-xs opacity-70">{polymer}</span> : null}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="mt-4 text-xs text-gray-500">
+        例如抗体重链 + 轻链为受体、抗原为伙伴；多肽配体或 DNA/RNA 链可单独作为伙伴链
+      </p>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import { SiteInteractions } from '@/src/types/interaction';
+import { LOW_PLDDT_THRESHOLD } from '@/src/analysis/confidence';
+import { LIGAND_CLASS_LABELS } from './AnalysisControls';
 
 interface InteractionTablesProps {
   siteInteractions: SiteInteractions[];
@@ -14,7 +16,15 @@ interface InteractionTableProps {
   colorClass: string;
 }
 
-function InteractionTable({ title, interactions, emptyMessage, colorClass }: InteractionTableProps) {
+const INTERACTION_TYPES = [
+  'hydrophobic', 'hbond', 'waterbridge', 'saltbridge', 'pistacking', 'pication', 'halogenbond', 'metal',
+] as const;
+
+// Interactions involving a residue predicted with low confidence
+const isLowConfidence = (interaction: { plddt?: number }) =>
+  interaction.plddt !== undefined && interaction.plddt < LOW_PLDDT_THRESHOLD;
+
+export function InteractionTable({ title, interactions, emptyMessage, colorClass }: InteractionTableProps) {
   const [isOpen, setIsOpen] = useState(true);
 
   if (interactions.length === 0) {
@@ -31,10 +41,11 @@ function InteractionTable({ title, interactions, emptyMessage, colorClass }: Int
     );
   }
 
-  const firstInteraction = interactions[0];
-  const columns = Object.keys(firstInteraction).filter(
-    key => key !== 'index' && typeof firstInteraction[key] !== 'object'
+  // Optional fields (occupancy, plddt, pae) may be set on only some records
+  const columns = Array.from(new Set(interactions.flatMap(interaction => Object.keys(interaction)))).filter(
+    key => key !== 'index' && interactions.some(interaction => interaction[key] !== undefined && typeof interaction[key] !== 'object')
   );
+  const lowConfidenceCount = interactions.filter(isLowConfidence).length;
 
   return (
     <div className="mb-4">
@@ -44,6 +55,9 @@ function InteractionTable({ title, interactions, emptyMessage, colorClass }: Int
       >
         <span className={`font-semibold ${colorClass}`}>{title}</span>
         <div className="flex items-center gap-2">
+          {lowConfidenceCount > 0 && (
+            <span className="text-xs text-amber-400">{lowConfidenceCount} 条低置信</span>
+          )}
           <span className="text-xs text-gray-400">{interactions.length} 条记录</span>
           <svg
             className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
@@ -75,10 +89,18 @@ function InteractionTable({ title, interactions, emptyMessage, colorClass }: Int
               {interactions.map((interaction, idx) => (
                 <tr
                   key={idx}
-                  className="hover:bg-slate-800/30 transition-colors border-b border-slate-700/30"
+                  title={isLowConfidence(interaction) ? `pLDDT < ${LOW_PLDDT_THRESHOLD}` : undefined}
+                  className={`transition-colors border-b border-slate-700/30 ${
+                    isLowConfidence(interaction) ? 'bg-amber-500/10 hover:bg-amber-500/20' : 'hover:bg-slate-800/30'
+                  }`}
                 >
                   {columns.map((col) => (
-                    <td key={col} className="px-3 py-2 text-gray-300 whitespace-nowrap">
+                    <td
+                      key={col}
+                      className={`px-3 py-2 whitespace-nowrap ${
+                        col === 'plddt' && isLowConfidence(interaction) ? 'text-amber-400 font-medium' : 'text-gray-300'
+                      }`}
+                    >
                       {interaction[col]?.toString() ?? ''}
                     </td>
                   ))}
@@ -105,9 +127,19 @@ export default function InteractionTables({ siteInteractions }: InteractionTable
     setExpandedSites(newExpanded);
   };
 
+  const hasPlddt = siteInteractions.some(site =>
+    INTERACTION_TYPES.some(type => site[type].some(interaction => interaction.plddt !== undefined))
+  );
+
   return (
     <div className="glass rounded-lg p-6">
       <h2 className="text-xl font-semibold text-white mb-4">相互作用结果</h2>
+      {hasPlddt && (
+        <p className="flex items-center gap-2 text-sm text-gray-400 mb-4">
+          <span className="inline-block w-3 h-3 rounded-sm bg-amber-500/40" />
+          涉及 pLDDT &lt; {LOW_PLDDT_THRESHOLD} 残基的相互作用（低置信，结构预测可能不可靠）
+        </p>
+      )}
 
       {siteInteractions.length === 0 ? (
         <div className="text-center py-12 text-gray-400">
@@ -127,7 +159,12 @@ export default function InteractionTables({ siteInteractions }: InteractionTable
               site.saltbridge.length +
               site.pistacking.length +
               site.pication.length +
-              site.halogenbond.length;
+              site.halogenbond.length +
+              site.metal.length;
+            const lowConfidence = INTERACTION_TYPES.reduce(
+              (sum, type) => sum + site[type].filter(isLowConfidence).length,
+              0
+            );
 
             return (
               <div key={site.siteId} className="border border-slate-700 rounded-lg overflow-hidden">
@@ -139,10 +176,23 @@ export default function InteractionTables({ siteInteractions }: InteractionTable
                   <div>
                     <h3 className="text-lg font-semibold text-white">
                       结合位点 {site.siteId}
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-slate-600/40 text-gray-300 align-middle">
+                        {LIGAND_CLASS_LABELS[site.ligand.ligandClass]}
+                      </span>
+                      {site.ligand.covalentBonds && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-rose-500/20 text-rose-300 align-middle">
+                          共价
+                        </span>
+                      )}
                     </h3>
                     <p className="text-sm text-gray-400">
-                      {site.ligand.resn} (Chain {site.ligand.chain}, Res {site.ligand.resi}) - {totalInteractions}{' '}
+                      {site.ligand.resn} (Chain {site.ligand.chain}, Res{' '}
+                      {site.ligand.residues
+                        ? site.ligand.residues.map(r => `${r.resi}${r.iCode}`).join('+')
+                        : `${site.ligand.resi}${site.ligand.iCode}`}
+                      ) - {totalInteractions}{' '}
                       条相互作用
+                      {lowConfidence > 0 && <span className="text-amber-400">（{lowConfidence} 条低置信）</span>}
                     </p>
                   </div>
                   <svg
@@ -158,6 +208,19 @@ export default function InteractionTables({ siteInteractions }: InteractionTable
                 {/* Site Interactions */}
                 {isExpanded && (
                   <div className="p-4 space-y-2">
+                    {site.ligand.covalentBonds && (
+                      <div className="mb-4 px-4 py-3 rounded-lg bg-rose-500/10 border border-rose-500/30 text-sm">
+                        <p className="font-semibold text-rose-300 mb-1">共价连接（已从非共价相互作用中排除）</p>
+                        {site.ligand.covalentBonds.map(bond => (
+                          <p key={`${bond.ligandAtomSerial}-${bond.proteinAtomSerial}`} className="text-gray-300">
+                            {site.ligand.resn} {bond.ligandAtomName} — {bond.aa} {bond.residue} {bond.proteinAtomName}
+                            <span className="ml-2 text-gray-400">
+                              {bond.distance.toFixed(2)} Å · {bond.source === 'record' ? 'LINK/CONECT 记录' : '共价半径判定'}
+                            </span>
+                          </p>
+                        ))}
+                      </div>
+                    )}
                     <InteractionTable
                       title="Hydrophobic (疏水相互作用)"
                       interactions={site.hydrophobic}
@@ -176,38 +239,36 @@ export default function InteractionTables({ siteInteractions }: InteractionTable
                       emptyMessage="无水桥"
                       colorClass="text-cyan-400"
                     />
-                    {site.saltbridge.length > 0 && (
-                      <InteractionTable
-                        title="Salt Bridge (盐桥)"
-                        interactions={site.saltbridge}
-                        emptyMessage="无盐桥"
-                        colorClass="text-purple-400"
-                      />
-                    )}
-                    {site.pistacking.length > 0 && (
-                      <InteractionTable
-                        title="Pi-Stacking (π-π 堆积)"
-                        interactions={site.pistacking}
-                        emptyMessage="无π-π堆积"
-                        colorClass="text-pink-400"
-                      />
-                    )}
-                    {site.pication.length > 0 && (
-                      <InteractionTable
-                        title="Pi-Cation (π-阳离子)"
-                        interactions={site.pication}
-                        emptyMessage="无π-阳离子相互作用"
-                        colorClass="text-orange-400"
-                      />
-                    )}
-                    {site.halogenbond.length > 0 && (
-                      <InteractionTable
-                        title="Halogen Bond (卤键)"
-                        interactions={site.halogenbond}
-                        emptyMessage="无卤键"
-                        colorClass="text-yellow-400"
-                      />
-                    )}
+                    <InteractionTable
+                      title="Salt Bridge (盐桥)"
+                      interactions={site.saltbridge}
+                      emptyMessage="无盐桥"
+                      colorClass="text-purple-400"
+                    />
+                    <InteractionTable
+                      title="Pi-Stacking (π-π 堆积)"
+                      interactions={site.pistacking}
+                      emptyMessage="无π-π堆积"
+                      colorClass="text-pink-400"
+                    />
+                    <InteractionTable
+                      title="Pi-Cation (π-阳离子)"
+                      interactions={site.pication}
+                      emptyMessage="无π-阳离子相互作用"
+                      colorClass="text-orange-400"
+                    />
+                    <InteractionTable
+                      title="Halogen Bond (卤键)"
+                      interactions={site.halogenbond}
+                      emptyMessage="无卤键"
+                      colorClass="text-yellow-400"
+                    />
+                    <InteractionTable
+                      title="Metal Complex (金属配位)"
+                      interactions={site.metal}
+                      emptyMessage="无金属配位"
+                      colorClass="text-teal-400"
+                    />
                   </div>
                 )}
               </div>
@@ -0,0 +1,137 @@
+'use client';
+
+import { InterfaceResult } from '@/src/types/interaction';
+import { InteractionTable } from './InteractionTables';
+
+interface InterfaceResultsProps {
+  result: InterfaceResult;
+  onExport: () => void;
+}
+
+export default function InterfaceResults({ result, onExport }: InterfaceResultsProps) {
+  const { stats, chainGroups, residues } = result;
+
+  return (
+    <>
+      {/* Summary */}
+      <div className="glass rounded-lg p-6 mb-6">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xl font-semibold text-white">界面分析摘要</h2>
+          <button
+            onClick={onExport}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            导出 JSON
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          受体 {chainGroups.receptor.join(', ')} · 伙伴 {chainGroups.partner.join(', ')}
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">受体界面残基</p>
+            <p className="text-2xl font-bold text-cyan-400">{stats.receptorResidues}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">伙伴界面残基</p>
+            <p className="text-2xl font-bold text-green-400">{stats.partnerResidues}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">埋藏表面积</p>
+            <p className="text-2xl font-bold text-white">{stats.buriedSurfaceArea} Å²</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">疏水作用</p>
+            <p className="text-2xl font-bold text-blue-400">{stats.totalHydrophobic}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">氢键</p>
+            <p className="text-2xl font-bold text-purple-400">{stats.totalHbond}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">盐桥</p>
+            <p className="text-2xl font-bold text-red-400">{stats.totalSaltbridge}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">π-π 堆积</p>
+            <p className="text-2xl font-bold text-pink-400">{stats.totalPistacking}</p>
+          </div>
+          <div className="bg-slate-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">分析时间</p>
+            <p className="text-2xl font-bold text-yellow-400">{stats.analysisTime}ms</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Per-residue contacts */}
+      <div className="glass rounded-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold text-white mb-4">界面残基</h2>
+        <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-slate-800/70">
+                {['侧', '残基', '名称', '埋藏面积 (Å²)', '疏水', '氢键', '盐桥', 'π-π 堆积', '接触残基'].map(col => (
+                  <th
+                    key={col}
+                    className="px-3 py-2 text-left text-gray-300 font-medium border-b border-slate-700 whitespace-nowrap"
+                  >
+                    {col}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {residues.map(residue => (
+                <tr
+                  key={`${residue.side}:${residue.residue}`}
+                  className="hover:bg-slate-800/30 transition-colors border-b border-slate-700/30"
+                >
+                  <td className={`px-3 py-2 whitespace-nowrap ${residue.side === 'receptor' ? 'text-cyan-400' : 'text-green-400'}`}>
+                    {residue.side === 'receptor' ? '受体' : '伙伴'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{residue.residue}</td>
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{residue.resn}</td>
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{residue.buriedArea}</td>
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{residue.hydrophobic || ''}</td>
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{residue.hbond || ''}</td>
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{residue.saltbridge || ''}</td>
+                  <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{residue.pistacking || ''}</td>
+                  <td className="px-3 py-2 text-gray-400">{residue.contacts.join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Interaction Tables */}
+      <div className="glass rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-white mb-4">界面相互作用</h2>
+        <InteractionTable
+          title="Hydrophobic (疏水相互作用)"
+          interactions={result.hydrophobic}
+          emptyMessage="无疏水相互作用"
+          colorClass="text-green-400"
+        />
+        <InteractionTable
+          title="H-bond (氢键)"
+          interactions={result.hbond}
+          emptyMessage="无氢键"
+          colorClass="text-blue-400"
+        />
+        <InteractionTable
+          title="Salt Bridge (盐桥)"
+          interactions={result.saltbridge}
+          emptyMessage="无盐桥"
+          colorClass="text-purple-400"
+        />
+        <InteractionTable
+          title="Pi-Stacking (π-π 堆积)"
+          interactions={result.pistacking}
+          emptyMessage="无π-π堆积"
+          colorClass="text-pink-400"
+        />
+      </div>
+    </>
+  );
+}
@@ -13,11 +13,18 @@ interface ProgressStatusProps {
 const statusLabels: Record<AnalysisStatus, string> = {
   idle: '就绪',
   parsing: '解析中',
+  validating: '校验结构',
   'building-grid': '构建空间索引',
   'finding-sites': '检测结合位点',
   'analyzing-hydrophobic': '分析疏水相互作用',
   'analyzing-hbond': '分析氢键',
   'analyzing-waterbridge': '分析水桥',
+  'analyzing-saltbridge': '分析盐桥',
+  'analyzing-pistacking': '分析π-π堆积',
+  'analyzing-pication': '分析π-阳离子',
+  'analyzing-halogenbond': '分析卤键',
+  'analyzing-metal': '分析金属配位',
+  'analyzing-surface': '计算埋藏表面积',
   complete: '完成',
   error: '错误',
 };
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { ValidationReport } from '@/src/types/interaction';
+
+interface ValidationPanelProps {
+  report: ValidationReport;
+}
+
+interface ValidationSectionProps {
+  title: string;
+  description: string;
+  rows: string[][];
+  columns: string[];
+}
+
+// Long lists (e.g. clashes in a poorly refined model) are cut to keep the page responsive
+const MAX_ROWS = 100;
+
+function ValidationSection({ title, description, rows, columns }: ValidationSectionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasIssues = rows.length > 0;
+
+  return (
+    <div className="mb-2">
+      <button
+        onClick={() => hasIssues && setIsOpen(!isOpen)}
+        className="w-full text-left px-4 py-2 bg-slate-800/50 rounded-lg flex items-center justify-between hover:bg-slate-700/50 transition-colors"
+      >
+        <div>
+          <span className={`font-semibold ${hasIssues ? 'text-amber-400' : 'text-green-400'}`}>{title}</span>
+          <span className="ml-3 text-xs text-gray-500">{description}</span>
+        </div>
+        <span className={`text-xs ${hasIssues ? 'text-amber-400' : 'text-gray-500'}`}>
+          {hasIssues ? `${rows.length} 项` : '无'}
+        </span>
+      </button>
+
+      {isOpen && hasIssues && (
+        <div className="mt-2 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-slate-800/70">
+                {columns.map(col => (
+                  <th
+                    key={col}
+                    className="px-3 py-2 text-left text-gray-300 font-medium border-b border-slate-700 whitespace-nowrap"
+                  >
+                    {col}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, MAX_ROWS).map((row, idx) => (
+                <tr key={idx} className="hover:bg-slate-800/30 transition-colors border-b border-slate-700/30">
+                  {row.map((cell, col) => (
+                    <td key={col} className="px-3 py-2 text-gray-300 whitespace-nowrap">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > MAX_ROWS && (
+            <p className="mt-2 text-xs text-gray-500">仅显示前 {MAX_ROWS} 项，完整列表见导出的 JSON</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ValidationPanel({ report }: ValidationPanelProps) {
+  const issueCount =
+    report.clashes.length +
+    report.incompleteResidues.length +
+    report.chainBreaks.length +
+    report.zeroOccupancy.length +
+    report.nonStandardResidues.length;
+
+  return (
+    <div className="glass rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">结构校验</h2>
+        <span className={`text-sm ${issueCount > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+          {issueCount > 0 ? `发现 ${issueCount} 项问题（第一个模型）` : '未发现问题'}
+        </span>
+      </div>
+
+      <ValidationSection
+        title="原子碰撞"
+        description="范德华半径重叠 ≥ 0.4 Å 的非键合原子对"
+        columns={['原子 1', '原子 2', '距离 (Å)', '重叠 (Å)']}
+        rows={report.clashes.map(clash => [
+          clash.atom1,
+          clash.atom2,
+          clash.distance.toFixed(2),
+          clash.overlap.toFixed(2),
+        ])}
+      />
+      <ValidationSection
+        title="缺失原子"
+        description="与标准氨基酸模板相比缺少重原子的残基"
+        columns={['残基', '名称', '缺失原子']}
+        rows={report.incompleteResidues.map(residue => [
+          residue.residue,
+          residue.resn,
+          residue.missingAtoms.join(' '),
+        ])}
+      />
+      <ValidationSection
+        title="链断裂"
+        description="相邻残基之间的主链不连续"
+        columns={['链', '起始残基', '终止残基', '距离 (Å)']}
+        rows={report.chainBreaks.map(gap => [gap.chain, gap.from, gap.to, gap.distance.toFixed(2)])}
+      />
+      <ValidationSection
+        title="零占有率原子"
+        description="占有率为 0 的原子，坐标未被实验数据支持"
+        columns={['残基', '名称', '原子']}
+        rows={report.zeroOccupancy.map(residue => [residue.residue, residue.resn, residue.atoms.join(' ')])}
+      />
+      <ValidationSection
+        title="非标准残基"
+        description="聚合物链中的修饰或非标准残基"
+        columns={['名称', '数量', '残基']}
+        rows={report.nonStandardResidues.map(group => [
+          group.resn,
+          String(group.residues.length),
+          group.residues.join(', '),
+        ])}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import {
+  AltLocStrategy,
+  ConversionOptions,
+  ConversionStats,
+  EntityType,
+  StructureSummary,
+} from '@/src/utils/mmcifToPdb';
+
+interface SelectionPanelProps {
+  summary: StructureSummary;
+  options: ConversionOptions;
+  onOptionsChange: (options: ConversionOptions) => void;
+  preview: ConversionStats;
+  disabled: boolean;
+}
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  polymer: '聚合物',
+  'non-polymer': '配体 / 离子',
+  water: '水',
+};
+
+const ALTLOC_LABELS: Record<AltLocStrategy, string> = {
+  all: '保留全部构象',
+  first: '仅第一个构象',
+  occupancy: '占有率最高的构象',
+};
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+export default function SelectionPanel({
+  summary,
+  options,
+  onOptionsChange,
+  preview,
+  disabled,
+}: SelectionPanelProps) {
+  const chains = options.chains ?? summary.chains.map(chain => chain.id);
+  const models = options.models ?? summary.models;
+  const entityTypes = options.entityTypes ?? summary.entityTypes;
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1 rounded-md text-sm border transition-colors disabled:opacity-50 ${
+      selected
+        ? 'bg-cyan-600/30 border-cyan-500 text-cyan-200'
+        : 'bg-slate-800/50 border-slate-600 text-gray-400 hover:border-slate-500'
+    }`;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-700 text-left">
+      <h3 className="text-lg font-semibold text-white mb-4">选择转换内容</h3>
+
+      <div className="space-y-4">
+        {/* Chains */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-300">链 ({chains.length}/{summary.chains.length})</label>
+            <div className="flex gap-3 text-xs">
+              <button
+                onClick={() => onOptionsChange({ ...options, chains: summary.chains.map(chain => chain.id) })}
+                disabled={disabled}
+                className="text-cyan-400 hover:text-cyan-300"
+              >
+                全选
+              </button>
+              <button
+                onClick={() => onOptionsChange({ ...options, chains: [] })}
+                disabled={disabled}
+                className="text-cyan-400 hover:text-cyan-300"
+              >
+                清空
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+            {summary.chains.map(chain => (
+              <button
+                key={chain.id}
+                onClick={() => onOptionsChange({ ...options, chains: toggle(chains, chain.id) })}
+                disabled={disabled}
+                title={`${chain.atomCount} 个原子 · ${chain.entityTypes.map(type => ENTITY_LABELS[type]).join(' / ')}`}
+                className={chipClass(chains.includes(chain.id))}
+              >
+                {chain.id}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Models */}
+        {summary.models.length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              模型 ({models.length}/{summary.models.length})
+            </label>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {summary.models.map(model => (
+                <button
+                  key={model}
+                  onClick={() => onOptionsChange({ ...options, models: toggle(models, model) })}
+                  disabled={disabled}
+                  className={chipClass(models.includes(model))}
+                >
+                  {model}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Entity types */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">实体类型</label>
+          <div className="flex flex-wrap gap-4">
+            {summary.entityTypes.map(type => (
+              <label key={type} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={entityTypes.includes(type)}
+                  onChange={() => onOptionsChange({ ...options, entityTypes: toggle(entityTypes, type) })}
+                  disabled={disabled}
+                  className="accent-cyan-500"
+                />
+                {ENTITY_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Alternate locations and hydrogens */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              替代构象 (altLoc，{summary.altLocCount} 个原子)
+            </label>
+            <select
+              value={options.altLocStrategy ?? 'all'}
+              onChange={(e) => onOptionsChange({ ...options, altLocStrategy: e.target.value as AltLocStrategy })}
+              disabled={disabled || summary.altLocCount === 0}
+              className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 disabled:opacity-50"
+            >
+              {(Object.keys(ALTLOC_LABELS) as AltLocStrategy[]).map(strategy => (
+                <option key={strategy} value={strategy}>{ALTLOC_LABELS[strategy]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              氢原子 ({summary.hydrogenCount} 个)
+            </label>
+            <label className="flex items-center gap-2 py-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.includeHydrogens ?? true}
+                onChange={(e) => onOptionsChange({ ...options, includeHydrogens: e.target.checked })}
+                disabled={disabled || summary.hydrogenCount === 0}
+                className="accent-cyan-500"
+              />
+              保留氢原子
+            </label>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="bg-slate-800/50 rounded-lg p-4 text-sm text-gray-300">
+          将保留 <span className="text-white font-semibold">{preview.atomCount}</span> 个原子、
+          <span className="text-cyan-400 font-semibold">{preview.chainCount}</span> 条链、
+          <span className="text-purple-400 font-semibold">{preview.residueCount}</span> 个残基
+          {preview.modelCount > 1 && <>、<span className="text-white font-semibold">{preview.modelCount}</span> 个模型</>}
+          {preview.exceedsPdbLimits && (
+            <p className="mt-1 text-xs text-yellow-400">超出 PDB 格式限制（99,999 个原子 / 62 条单字符链）</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
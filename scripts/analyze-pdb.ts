@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { analyzeStructure, detectStructureFormat, DEFAULT_ANALYSIS_PARAMS } from '../src/analysis/analyze';
+
+// 用法: npm run analyze -- <结构文件 .pdb/.cif/.bcif[.gz]> [输出.json] [--pae <PAE.json>]
+const args = process.argv.slice(2);
+const paeIndex = args.indexOf('--pae');
+const paeArg = paeIndex >= 0 ? args[paeIndex + 1] : undefined;
+if (paeIndex >= 0) {
+  args.splice(paeIndex, 2);
+}
+
+const [inputArg, outputArg] = args;
+if (!inputArg || (paeIndex >= 0 && !paeArg)) {
+  console.error('用法: npm run analyze -- <结构文件 .pdb/.cif/.bcif[.gz]> [输出.json] [--pae <PAE.json>]');
+  process.exit(1);
+}
+
+const inputPath = path.resolve(process.cwd(), inputArg);
+let data = fs.readFileSync(inputPath);
+// gzip 魔数 0x1f 0x8b
+if (data[0] === 0x1f && data[1] === 0x8b) {
+  data = zlib.gunzipSync(data);
+}
+
+const format = detectStructureFormat(inputPath);
+const content = format === 'bcif' ? new Uint8Array(data) : data.toString('utf-8');
+const pae = paeArg ? fs.readFileSync(path.resolve(process.cwd(), paeArg), 'utf-8') : undefined;
+const result = analyzeStructure(content, format, path.basename(inputPath), DEFAULT_ANALYSIS_PARAMS, undefined, pae);
+const json = JSON.stringify(result, null, 2);
+
+if (outputArg) {
+  const outputPath = path.resolve(process.cwd(), outputArg);
+  fs.writeFileSync(outputPath, json, 'utf-8');
+  console.log(`结合位点: ${result.stats.totalSites}，耗时 ${result.stats.analysisTime} ms`);
+  console.log(`已写入: ${outputPath}`);
+} else {
+  console.log(json);
+}
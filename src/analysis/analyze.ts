@@ -0,0 +1,434 @@
+/**
+ * Interaction analysis engine
+ * Runs the full pipeline (parse, hydrogens, binding sites, all detectors) on PDB, mmCIF
+ * or BinaryCIF content, model by model for NMR ensembles and MD snapshots.
+ * Used by the web worker and callable directly from Node.
+ */
+
+import {
+  AnalysisParams,
+  AnalysisResult,
+  AnalysisStatus,
+  Atom,
+  BindingSite,
+  ProgressUpdate,
+  SiteInteractions,
+  StructureFormat,
+} from '../types/interaction';
+import { ParsedModel, parsePDBModels, residueKey } from './pdbParser';
+import { parseMMCIFModels } from './mmcifParser';
+import { parseBinaryCif, parseCif } from '../utils/cif';
+import { buildSpatialGrid } from './spatialGrid';
+import { detectBindingSites } from './bindingSite';
+import { addHydrogens, assignHydrogens } from './hydrogens';
+import { findHydrophobicInteractionsByAtom } from './interactions/hydrophobic';
+import { findHbondInteractions } from './interactions/hbond';
+import { findWaterbridgeInteractions } from './interactions/waterbridge';
+import { findSaltbridgeInteractions, getLigandChargedGroups } from './interactions/saltbridge';
+import { findPistackingInteractions } from './interactions/pistacking';
+import { findPicationInteractions } from './interactions/pication';
+import { findHalogenbondInteractions } from './interactions/halogenbond';
+import { findMetalComplexes } from './interactions/metal';
+import { PaeLookup, annotateConfidence, buildPaeLookup, parsePaeJson, summarizeConfidence } from './confidence';
+import { validateStructure } from './validation';
+import { covalentExclusions, excludeCovalentPairs } from './covalent';
+import { isWater } from './ligandClasses';
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+// Default thresholds (Å, degrees), shared by the analyzer UI and the CLI
+export const DEFAULT_ANALYSIS_PARAMS: AnalysisParams = {
+  bindingSiteDistance: 7.5,
+  hydrophobicMaxDist: 4.0,
+  hbondMaxDist: 3.5,
+  hbondMinAngle: 100,
+  addHydrogens: false,
+  saltBridgeMaxDist: 5.5,
+  waterBridgeMaxDist: 4.1,
+  piStackingMaxDist: 6.0,
+  piCationMaxDist: 6.0,
+  halogenBondMaxDist: 4.0,
+  halogenBondIncludeFluorine: false,
+  bFactorIsPlddt: false,
+  siteClasses: ['druglike', 'cofactor'],
+  mergeBondedLigands: true,
+  ligandGroups: [],
+};
+
+type InteractionType = keyof Omit<SiteInteractions, 'siteId' | 'ligand'>;
+
+type ProgressReporter = (status: AnalysisStatus, progress: number, message: string, currentSite?: number, totalSites?: number) => void;
+
+/**
+ * Binding sites and interactions of one model
+ */
+interface ModelAnalysis {
+  bindingSites: BindingSite[];
+  interactions: SiteInteractions[];
+  atomIds: Map<number, string>;  // Serial -> residue:atom name, to match atoms across models
+}
+
+type AtomIdentity = (serial: number) => string;
+
+/**
+ * Run binding-site detection and every detector on one model
+ * Progress for this model is mapped onto [start, start + span) of the overall range
+ */
+function analyzeModel(
+  model: ParsedModel,
+  params: AnalysisParams,
+  report: ProgressReporter,
+  start: number,
+  span: number,
+  label: string,
+  pae?: PaeLookup
+): ModelAnalysis {
+  const { proteinAtoms, ligandAtoms, allAtoms, hydrogenAtoms } = model;
+  const atomIds = new Map<number, string>();
+  for (const atom of [...allAtoms, ...hydrogenAtoms]) {
+    atomIds.set(atom.serial, `${residueKey(atom)}:${atom.atomName}`);
+  }
+
+  if (ligandAtoms.length === 0) {
+    return { bindingSites: [], interactions: [], atomIds };
+  }
+
+  // Use explicit hydrogens when present, otherwise optionally place polar ones
+  if (hydrogenAtoms.length > 0) {
+    assignHydrogens(allAtoms, hydrogenAtoms);
+  } else if (params.addHydrogens) {
+    addHydrogens(allAtoms);
+  }
+
+  // Build spatial grid
+  report('building-grid', 20, `${label}Building spatial index...`);
+  const proteinGrid = buildSpatialGrid(proteinAtoms, 5.0);
+  const waterGrid = buildSpatialGrid(
+    proteinAtoms.filter(atom => isWater(atom.resn)),
+    5.0
+  );
+
+  // Find binding sites
+  report('finding-sites', 30, `${label}Detecting binding sites...`);
+  const bindingSites = detectBindingSites(
+    proteinAtoms,
+    ligandAtoms,
+    proteinGrid,
+    params.bindingSiteDistance,
+    params.siteClasses,
+    params.mergeBondedLigands,
+    params.ligandGroups
+  );
+
+  // Analyze each binding site
+  const interactions: SiteInteractions[] = [];
+  const siteCount = bindingSites.length;
+
+  for (let i = 0; i < siteCount; i++) {
+    const site = bindingSites[i];
+    const fraction = start + (i / siteCount) * span;
+
+    // Atoms within three bonds through a covalent bond are too close to count as a non-covalent contact
+    const covalentPairs = covalentExclusions(site);
+
+    report('analyzing-hydrophobic', 40 + fraction * 10, `${label}Analyzing site ${i + 1}/${siteCount}...`, i + 1, siteCount);
+    const hydrophobic = excludeCovalentPairs(
+      findHydrophobicInteractionsByAtom(site, proteinGrid, params.hydrophobicMaxDist),
+      covalentPairs,
+      record => [record.ligandAtomSerial, record.proteinAtomSerial]
+    );
+
+    report('analyzing-hbond', 50 + fraction * 10, `${label}Analyzing H-bonds for site ${i + 1}...`, i + 1, siteCount);
+    const hbond = excludeCovalentPairs(
+      findHbondInteractions(site, proteinGrid, params.hbondMaxDist, params.hbondMinAngle),
+      covalentPairs,
+      record => [record.donorAtomSerial, record.acceptorAtomSerial]
+    );
+    const waterbridge = findWaterbridgeInteractions(site, proteinGrid, waterGrid, params.waterBridgeMaxDist, hbond);
+
+    report('analyzing-saltbridge', 60 + fraction * 8, `${label}Analyzing salt bridges for site ${i + 1}...`, i + 1, siteCount);
+    const saltbridge = findSaltbridgeInteractions(site, params.saltBridgeMaxDist, getLigandChargedGroups, covalentPairs);
+
+    report('analyzing-pistacking', 68 + fraction * 8, `${label}Analyzing pi-stacking for site ${i + 1}...`, i + 1, siteCount);
+    const pistacking = findPistackingInteractions(site, params.piStackingMaxDist);
+
+    report('analyzing-pication', 76 + fraction * 8, `${label}Analyzing pi-cation for site ${i + 1}...`, i + 1, siteCount);
+    const pication = findPicationInteractions(site, params.piCationMaxDist, covalentPairs);
+
+    report('analyzing-halogenbond', 84 + fraction * 8, `${label}Analyzing halogen bonds for site ${i + 1}...`, i + 1, siteCount);
+    const halogenbond = excludeCovalentPairs(
+      findHalogenbondInteractions(site, proteinGrid, params.halogenBondMaxDist, params.halogenBondIncludeFluorine),
+      covalentPairs,
+      record => [record.ligandAtomSerial, record.proteinAtomSerial]
+    );
+
+    report('analyzing-metal', 92 + fraction * 8, `${label}Analyzing metal complexes for site ${i + 1}...`, i + 1, siteCount);
+    const metal = findMetalComplexes(site, proteinGrid);
+
+    interactions.push({
+      siteId: site.siteId,
+      ligand: site.ligand,
+      hydrophobic,
+      hbond,
+      waterbridge,
+      saltbridge,
+      pistacking,
+      pication,
+      halogenbond,
+      metal,
+    });
+  }
+
+  // Confidence is read per model, before models are merged
+  if (pae || model.plddtSource) {
+    const atomsBySerial = new Map<number, Atom>();
+    for (const atom of [...allAtoms, ...hydrogenAtoms]) atomsBySerial.set(atom.serial, atom);
+    annotateConfidence(interactions, atomsBySerial, pae);
+  }
+
+  return { bindingSites, interactions, atomIds };
+}
+
+/**
+ * Identity of an interaction across models, built from atom identities rather than serials
+ * (mmCIF numbers atoms uniquely across all models)
+ * Water bridges are keyed without the water, which may differ between snapshots
+ */
+const INTERACTION_KEYS: { [K in InteractionType]: (record: SiteInteractions[K][number], id: AtomIdentity) => string } = {
+  hydrophobic: (r, id) => `${r.residue}|${id(r.ligandAtomSerial)}`,
+  hbond: (r, id) => `${id(r.donorAtomSerial)}|${id(r.acceptorAtomSerial)}`,
+  waterbridge: (r, id) => `${id(r.donorAtomSerial)}|${id(r.acceptorAtomSerial)}`,
+  saltbridge: (r, id) => `${r.residue}|${r.ligandGroup}|${id(r.ligandAtomSerial)}`,
+  pistacking: (r, id) => `${id(r.ligandRingSerial)}|${id(r.proteinRingSerial)}`,
+  pication: (r, id) => `${id(r.ligandAtomSerial)}|${id(r.proteinAtomSerial)}`,
+  halogenbond: (r, id) => `${id(r.ligandAtomSerial)}|${id(r.proteinAtomSerial)}`,
+  metal: (r, id) => id(r.metalAtomSerial),
+};
+
+/**
+ * Merge one interaction type across models
+ * Each interaction keeps the record of the first model it appears in, with its occupancy;
+ * the list is ordered by occupancy, then by the detector's own order
+ */
+function mergeRecords<T extends { index: number; occupancy?: number }>(
+  perModel: { records: T[]; atomId: AtomIdentity }[],
+  key: (record: T, id: AtomIdentity) => string,
+  modelCount: number
+): T[] {
+  const merged = new Map<string, { record: T; count: number }>();
+
+  for (const { records, atomId } of perModel) {
+    const seen = new Set<string>();
+    for (const record of records) {
+      const id = key(record, atomId);
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      const entry = merged.get(id);
+      if (entry) {
+        entry.count++;
+      } else {
+        merged.set(id, { record, count: 1 });
+      }
+    }
+  }
+
+  const result = Array.from(merged.values())
+    .map(({ record, count }) => ({ ...record, occupancy: Number((count / modelCount).toFixed(3)) }))
+    .sort((a, b) => b.occupancy - a.occupancy);
+
+  result.forEach((record, i) => {
+    record.index = i + 1;
+  });
+
+  return result;
+}
+
+/**
+ * Combine per-model results into one set of sites with per-interaction occupancy
+ * Sites are matched by ligand residue; each site is described by the first model containing it
+ */
+function mergeModels(models: ModelAnalysis[]): Pick<ModelAnalysis, 'bindingSites' | 'interactions'> {
+  const sites = new Map<string, { site: BindingSite; perModel: { interactions: SiteInteractions; atomId: AtomIdentity }[] }>();
+
+  for (const { bindingSites, interactions, atomIds } of models) {
+    const atomId = (serial: number) => atomIds.get(serial) ?? String(serial);
+    bindingSites.forEach((site, i) => {
+      const key = residueKey(site.ligand);
+      if (!sites.has(key)) {
+        sites.set(key, { site, perModel: [] });
+      }
+      sites.get(key)!.perModel.push({ interactions: interactions[i], atomId });
+    });
+  }
+
+  const bindingSites: BindingSite[] = [];
+  const interactions: SiteInteractions[] = [];
+  const modelCount = models.length;
+
+  let siteId = 1;
+  for (const { site, perModel } of sites.values()) {
+    const ligand = { ...site.ligand, siteId };
+    const merge = <K extends InteractionType>(type: K) =>
+      mergeRecords<SiteInteractions[K][number]>(
+        perModel.map(({ interactions, atomId }) => ({ records: interactions[type], atomId })),
+        INTERACTION_KEYS[type],
+        modelCount
+      ) as SiteInteractions[K];
+
+    bindingSites.push({ ...site, siteId, ligand });
+    interactions.push({
+      siteId,
+      ligand,
+      hydrophobic: merge('hydrophobic'),
+      hbond: merge('hbond'),
+      waterbridge: merge('waterbridge'),
+      saltbridge: merge('saltbridge'),
+      pistacking: merge('pistacking'),
+      pication: merge('pication'),
+      halogenbond: merge('halogenbond'),
+      metal: merge('metal'),
+    });
+    siteId++;
+  }
+
+  return { bindingSites, interactions };
+}
+
+/**
+ * Guess the structure format from a file name (a trailing .gz is ignored)
+ */
+export function detectStructureFormat(filename: string): StructureFormat {
+  const name = filename.toLowerCase().replace(/\.gz$/, '');
+  if (name.endsWith('.bcif')) return 'bcif';
+  if (name.endsWith('.cif') || name.endsWith('.mmcif')) return 'mmcif';
+  return 'pdb';
+}
+
+/**
+ * Parse structure content of the given format into models
+ */
+export function parseModels(content: string | Uint8Array, format: StructureFormat): ParsedModel[] {
+  if (format === 'bcif') {
+    if (typeof content === 'string') {
+      throw new Error('BinaryCIF content must be binary');
+    }
+    return parseMMCIFModels(parseBinaryCif(content));
+  }
+
+  const text = typeof content === 'string' ? content : new TextDecoder('utf-8').decode(content);
+  return format === 'mmcif' ? parseMMCIFModels(parseCif(text)) : parsePDBModels(text);
+}
+
+/**
+ * Analyze all binding sites in a PDB file
+ */
+export function analyzePDB(
+  pdbContent: string,
+  filename: string | undefined,
+  params: AnalysisParams,
+  onProgress?: ProgressCallback
+): AnalysisResult {
+  return analyzeStructure(pdbContent, 'pdb', filename, params, onProgress);
+}
+
+/**
+ * Analyze all binding sites in a PDB, mmCIF or BinaryCIF structure
+ * Multi-model files are analyzed model by model and merged, with per-interaction occupancy
+ * Predicted models get pLDDT on every interaction, and PAE across chains when a PAE JSON
+ * (or ModelCIF pairwise metrics) is available
+ * Throws when the structure has no ligands or no binding sites, or the PAE does not fit it
+ */
+export function analyzeStructure(
+  content: string | Uint8Array,
+  format: StructureFormat,
+  filename: string | undefined,
+  params: AnalysisParams,
+  onProgress: ProgressCallback = () => {},
+  paeJson?: string
+): AnalysisResult {
+  const startTime = Date.now();
+
+  const sendProgress: ProgressReporter = (status, progress, message, currentSite, totalSites) =>
+    onProgress({ status, progress, message, currentSite, totalSites });
+
+  // Parse structure
+  sendProgress('parsing', 10, format === 'pdb' ? 'Parsing PDB file...' : 'Parsing mmCIF file...');
+  const models = parseModels(content, format);
+
+  if (models.every(model => model.ligandAtoms.length === 0)) {
+    throw new Error('No ligands found in structure file');
+  }
+
+  sendProgress('validating', 15, 'Validating structure...');
+  const validation = validateStructure(models[0]);
+
+  if (params.bFactorIsPlddt) {
+    for (const model of models) {
+      if (model.plddtSource) continue;
+      for (const atom of [...model.allAtoms, ...model.hydrogenAtoms]) atom.plddt = atom.bFactor;
+      model.plddtSource = 'bfactor';
+    }
+  }
+
+  const paeData = paeJson ? parsePaeJson(paeJson) : undefined;
+  const paeLookups = models.map(model => {
+    const pae = paeData ?? model.pae;
+    return pae ? buildPaeLookup(pae, model.allAtoms) : undefined;
+  });
+
+  const modelCount = models.length;
+  const perModel = models.map((model, m) =>
+    analyzeModel(
+      model,
+      params,
+      sendProgress,
+      m / modelCount,
+      1 / modelCount,
+      modelCount > 1 ? `Model ${m + 1}/${modelCount}: ` : '',
+      paeLookups[m]
+    )
+  );
+
+  const { bindingSites, interactions } = modelCount > 1 ? mergeModels(perModel) : perModel[0];
+
+  if (bindingSites.length === 0) {
+    throw new Error('No binding sites found');
+  }
+
+  sendProgress('complete', 100, 'Analysis complete');
+
+  const total = (key: InteractionType) =>
+    interactions.reduce((sum, site) => sum + site[key].length, 0);
+
+  // Atom counts and confidence describe the first model
+  const { proteinAtoms, ligandAtoms, allAtoms, plddtSource } = models[0];
+
+  return {
+    success: true,
+    filename,
+    timestamp: Date.now(),
+    params,
+    ligands: bindingSites.map(site => site.ligand),
+    bindingSites,
+    interactions,
+    confidence: plddtSource ? summarizeConfidence(allAtoms, plddtSource, paeLookups[0] !== undefined) : undefined,
+    validation,
+    stats: {
+      totalAtoms: allAtoms.length,
+      proteinAtoms: proteinAtoms.length,
+      ligandAtoms: ligandAtoms.length,
+      totalSites: bindingSites.length,
+      totalHydrophobic: total('hydrophobic'),
+      totalHbond: total('hbond'),
+      totalWaterbridge: total('waterbridge'),
+      totalSaltbridge: total('saltbridge'),
+      totalPistacking: total('pistacking'),
+      totalPication: total('pication'),
+      totalHalogenbond: total('halogenbond'),
+      totalMetal: total('metal'),
+      totalModels: modelCount,
+      analysisTime: Date.now() - startTime,
+    },
+  };
+}
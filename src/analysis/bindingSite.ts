@@ -3,55 +3,58 @@
  * Identifies ligands and their surrounding pocket residues
  */
 
-import { Atom, Ligand, BindingSite, ResidueRef } from '../types/interaction';
-import { groupLigands } from './pdbParser';
-import { SpatialGrid, findNeighbors } from './spatialGrid';
+import { Atom, Ligand, BindingSite, LigandClass, ResidueRef } from '../types/interaction';
+import { findReceptorContextAtoms, groupLigands, residueKey } from './pdbParser';
+import { SpatialGrid, buildSpatialGrid, findNeighbors } from './spatialGrid';
+import { perceiveLigandChemistry } from './ligandChemistry';
+import { findCovalentBonds } from './covalent';
+import { SITE_LIGAND_CLASSES, classifyLigand } from './ligandClasses';
+import { groupLigandResidues } from './ligandGroups';
 
 /**
- * Determine ligand type based on residue name
+ * Coarse ligand type from its class
  */
-function getLigandType(resn: string): Ligand['type'] {
-  const water = new Set(['HOH', 'WAT', 'DOD']);
-  const ions = new Set([
-    'NA', 'SOD', 'CL', 'CLA', 'MG', 'CA', 'K', 'POT', 'ZN', 'FE', 'MN',
-    'CU', 'CO', 'NI', 'CD', 'BA', 'SR', 'BE', 'LI', 'CS', 'AG', 'AU',
-  ]);
-
-  const upperResn = resn.toUpperCase();
-  if (water.has(upperResn)) return 'WATER';
-  if (ions.has(upperResn)) return 'ION';
+function getLigandType(ligandClass: LigandClass): Ligand['type'] {
+  if (ligandClass === 'water') return 'WATER';
+  if (ligandClass === 'ion') return 'ION';
   return 'SMALLMOLECULE';
 }
 
 /**
  * Create a ligand object from grouped atoms
+ * A ligand of several residues is named after all of them and takes the class that ranks first
+ * in SITE_LIGAND_CLASSES (a drug-like residue makes the whole ligand drug-like)
  */
-function createLigand(siteId: number, chain: string, resi: number, resn: string, atoms: Atom[]): Ligand {
-  return {
+function createLigand(siteId: number, atoms: Atom[]): Ligand {
+  const { chain, resi, iCode } = atoms[0];
+  const residues = Array.from(groupLigands(atoms).values());
+  const classes = residues.map(residueAtoms => classifyLigand(residueAtoms[0].resn, residueAtoms));
+  const ligandClass = SITE_LIGAND_CLASSES.find(c => classes.includes(c)) ?? classes[0];
+  const ligand: Ligand = {
     siteId,
     chain,
     resi,
-    resn,
+    iCode,
+    resn: residues.map(residueAtoms => residueAtoms[0].resn).join('-'),
     atoms,
-    type: getLigandType(resn),
+    type: getLigandType(ligandClass),
+    ligandClass,
   };
+  if (residues.length > 1) {
+    ligand.residues = residues.map(residueAtoms => parseResidueKey(residueKey(residueAtoms[0])));
+  }
+  return ligand;
 }
 
 /**
- * Create a residue reference key for deduplication
- */
-function residueKey(chain: string, resi: number, resn: string): string {
-  return `${chain}:${resi}:${resn}`;
-}
-
-/**
- * Parse residue key back to components
+ * Parse residue key (see residueKey) back to components
  */
 export function parseResidueKey(key: string): ResidueRef {
-  const [chain, resi, resn] = key.split(':');
+  const [chain, resi, iCode, resn] = key.split(':');
   return {
     chain,
     resi: parseInt(resi),
+    iCode,
     resn,
   };
 }
@@ -61,12 +64,14 @@ export function parseResidueKey(key: string): ResidueRef {
  */
 function findPocketAtoms(ligand: Ligand, proteinGrid: SpatialGrid, bindingSiteDistance: number): Atom[] {
   const pocketAtomsSet = new Set<Atom>();
+  // Ions are part of the protein grid, so an ion site would otherwise find itself
+  const ligandAtoms = new Set(ligand.atoms);
 
   // For each ligand atom, find nearby protein atoms
   for (const ligandAtom of ligand.atoms) {
     const neighbors = findNeighbors(proteinGrid, ligandAtom, bindingSiteDistance);
     for (const neighbor of neighbors) {
-      pocketAtomsSet.add(neighbor);
+      if (!ligandAtoms.has(neighbor)) pocketAtomsSet.add(neighbor);
     }
   }
 
@@ -80,11 +85,12 @@ function extractResidues(atoms: Atom[]): ResidueRef[] {
   const residueMap = new Map<string, ResidueRef>();
 
   for (const atom of atoms) {
-    const key = residueKey(atom.chain, atom.resi, atom.resn);
+    const key = residueKey(atom);
     if (!residueMap.has(key)) {
       residueMap.set(key, {
         chain: atom.chain,
         resi: atom.resi,
+        iCode: atom.iCode,
         resn: atom.resn,
       });
     }
@@ -92,29 +98,38 @@ function extractResidues(atoms: Atom[]): ResidueRef[] {
 
   return Array.from(residueMap.values()).sort((a, b) => {
     if (a.chain !== b.chain) return a.chain.localeCompare(b.chain);
-    return a.resi - b.resi;
+    if (a.resi !== b.resi) return a.resi - b.resi;
+    return a.iCode.localeCompare(b.iCode);
   });
 }
 
 /**
  * Detect all binding sites in the structure
+ * Only ligands of the given classes form sites; ions come from the receptor context.
+ * Bonded residues are merged into one ligand (see groupLigandResidues)
  */
 export function detectBindingSites(
   proteinAtoms: Atom[],
   ligandAtoms: Atom[],
   proteinGrid: SpatialGrid,
-  bindingSiteDistance: number
+  bindingSiteDistance: number,
+  siteClasses: LigandClass[],
+  mergeBonded: boolean = true,
+  manualGroups: string[] = []
 ): BindingSite[] {
   const bindingSites: BindingSite[] = [];
-  const ligandGroups = groupLigands(ligandAtoms);
+  const ligandGroups = groupLigandResidues(ligandAtoms, mergeBonded, manualGroups);
+  if (siteClasses.includes('ion')) {
+    const receptorContext = Array.from(findReceptorContextAtoms(proteinAtoms));
+    ligandGroups.push(...groupLigands(receptorContext).values());
+  }
 
   let siteId = 1;
-  for (const [key, atoms] of ligandGroups.entries()) {
-    const [chain, resi, resn] = key.split(':');
-    const ligand = createLigand(siteId, chain, parseInt(resi), resn, atoms);
+  for (const atoms of ligandGroups) {
+    const ligand = createLigand(siteId, atoms);
 
-    // Skip water molecules as binding sites
-    if (ligand.type === 'WATER') {
+    // Water never forms a binding site
+    if (ligand.type === 'WATER' || !siteClasses.includes(ligand.ligandClass)) {
       continue;
     }
 
@@ -124,6 +139,15 @@ export function detectBindingSites(
 
     // Only create a binding site if there are pocket residues
     if (pocketResidues.length > 0) {
+      if (ligand.type === 'SMALLMOLECULE') {
+        perceiveLigandChemistry(ligand.atoms);
+
+        const covalentBonds = findCovalentBonds(ligand, proteinGrid);
+        if (covalentBonds.length > 0) {
+          ligand.covalentBonds = covalentBonds;
+        }
+      }
+
       bindingSites.push({
         siteId,
         ligand,
@@ -141,8 +165,6 @@ export function detectBindingSites(
  * Create a spatial grid from protein atoms
  */
 export function createProteinGrid(proteinAtoms: Atom[]): SpatialGrid {
-  // Import here to avoid circular dependency
-  const { buildSpatialGrid } = require('./spatialGrid');
   // Use a cell size slightly larger than typical interaction distance
   return buildSpatialGrid(proteinAtoms, 5.0);
 }
@@ -0,0 +1,155 @@
+/**
+ * Covalent bond perception from CONECT records and coordinates
+ * Infers connectivity for HETATM groups, which usually carry no bond information
+ */
+
+import { Atom } from '../types/interaction';
+import { distance } from './pdbParser';
+import { angleAt } from './geometry';
+
+// Single-bond covalent radii in Å (Cordero et al. 2008)
+export const COVALENT_RADII: Record<string, number> = {
+  H: 0.31, B: 0.84, C: 0.76, N: 0.71, O: 0.66, F: 0.57,
+  Si: 1.11, P: 1.07, S: 1.05, Cl: 1.02, Se: 1.20, Br: 1.20, I: 1.39,
+  Li: 1.28, Na: 1.66, K: 2.03, Mg: 1.41, Ca: 1.76,
+  Mn: 1.39, Fe: 1.32, Co: 1.26, Ni: 1.24, Cu: 1.32, Zn: 1.22,
+  As: 1.19, Pt: 1.36, Hg: 1.32,
+};
+
+// Tolerance added to the sum of covalent radii
+const BOND_TOLERANCE = 0.45;
+
+// Distances below this are overlapping atoms, not bonds
+const MIN_BOND_DISTANCE = 0.4;
+
+/**
+ * Get covalent radius for an element (defaults to carbon-like radius)
+ */
+export function getCovalentRadius(element: string): number {
+  return COVALENT_RADII[element] ?? 0.76;
+}
+
+/**
+ * Check whether two atoms are within covalent bonding distance
+ */
+export function isBonded(a: Atom, b: Atom): boolean {
+  const dist = distance(a, b);
+  if (dist < MIN_BOND_DISTANCE) return false;
+  return dist <= getCovalentRadius(a.element) + getCovalentRadius(b.element) + BOND_TOLERANCE;
+}
+
+/**
+ * Build an adjacency map from CONECT records, keeping bonds within the atom set
+ */
+function bondsFromConect(atoms: Atom[]): Map<number, Atom[]> {
+  const bySerial = new Map<number, Atom>();
+  for (const atom of atoms) {
+    bySerial.set(atom.serial, atom);
+  }
+
+  const adjacency = new Map<number, Atom[]>();
+  for (const atom of atoms) {
+    const partners = (atom.conect ?? [])
+      .map(serial => bySerial.get(serial))
+      .filter((partner): partner is Atom => partner !== undefined);
+    adjacency.set(atom.serial, partners);
+  }
+
+  return adjacency;
+}
+
+/**
+ * Infer bonds between a set of atoms
+ * CONECT records are used when they cover every atom; otherwise bonds come from
+ * covalent-radius distances. Returns an adjacency map keyed by atom serial
+ */
+export function inferBonds(atoms: Atom[]): Map<number, Atom[]> {
+  if (atoms.length > 1 && atoms.every(atom => atom.conect !== undefined)) {
+    return bondsFromConect(atoms);
+  }
+
+  const adjacency = new Map<number, Atom[]>();
+  for (const atom of atoms) {
+    adjacency.set(atom.serial, []);
+  }
+
+  // Ligands are small, so the quadratic scan is cheaper than building a grid
+  for (let i = 0; i < atoms.length; i++) {
+    for (let j = i + 1; j < atoms.length; j++) {
+      if (isBonded(atoms[i], atoms[j])) {
+        adjacency.get(atoms[i].serial)!.push(atoms[j]);
+        adjacency.get(atoms[j].serial)!.push(atoms[i]);
+      }
+    }
+  }
+
+  return adjacency;
+}
+
+export type Hybridization = 'sp' | 'sp2' | 'sp3';
+
+// Bond length / sum of covalent radii below which a bond is triple (C≡N ≈ 0.79)
+const TRIPLE_BOND_RATIO = 0.83;
+
+// ... below which a bond is double (C=O ≈ 0.87, C=N ≈ 0.87, C=C ≈ 0.88)
+const DOUBLE_BOND_RATIO = 0.89;
+
+// ... below which a bond is conjugated (aromatic C-C ≈ 0.91, amide C-N ≈ 0.90, acid C-OH ≈ 0.92)
+const CONJUGATED_BOND_RATIO = 0.93;
+
+/**
+ * Estimate bond order from bond length
+ * Returns 1, 1.5 (conjugated/aromatic), 2 or 3
+ */
+export function estimateBondOrder(a: Atom, b: Atom): number {
+  const ratio = distance(a, b) / (getCovalentRadius(a.element) + getCovalentRadius(b.element));
+  if (ratio < TRIPLE_BOND_RATIO) return 3;
+  if (ratio < DOUBLE_BOND_RATIO) return 2;
+  if (ratio < CONJUGATED_BOND_RATIO) return 1.5;
+  return 1;
+}
+
+/**
+ * Mean angle (degrees) between the bonds of an atom
+ */
+function meanBondAngle(atom: Atom, neighbors: Atom[]): number {
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i < neighbors.length; i++) {
+    for (let j = i + 1; j < neighbors.length; j++) {
+      total += angleAt(neighbors[i], atom, neighbors[j]);
+      count++;
+    }
+  }
+  return count > 0 ? total / count : 0;
+}
+
+/**
+ * Infer hybridization from bond angles, or from bond length for terminal atoms
+ * Terminal N/O/S attached to a planar atom (phenol O, aniline N) count as sp2
+ */
+export function inferHybridization(atom: Atom, adjacency: Map<number, Atom[]>): Hybridization {
+  const neighbors = adjacency.get(atom.serial) ?? [];
+
+  if (neighbors.length >= 2) {
+    const angle = meanBondAngle(atom, neighbors);
+    if (angle > 155) return 'sp';
+    if (angle > 115) return 'sp2';
+    return 'sp3';
+  }
+
+  if (neighbors.length === 1) {
+    const order = estimateBondOrder(atom, neighbors[0]);
+    if (order === 3) return 'sp';
+    if (order > 1) return 'sp2';
+
+    // Lone pairs of terminal heteroatoms conjugate with a planar neighbor
+    const neighborBonds = adjacency.get(neighbors[0].serial) ?? [];
+    const heteroatom = atom.element === 'N' || atom.element === 'O' || atom.element === 'S';
+    if (heteroatom && neighborBonds.length >= 2 && meanBondAngle(neighbors[0], neighborBonds) > 115) {
+      return 'sp2';
+    }
+  }
+
+  return 'sp3';
+}
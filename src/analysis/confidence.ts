@@ -0,0 +1,304 @@
+/**
+ * Confidence of predicted models
+ * Reads pLDDT from ModelCIF quality metrics and PAE from AlphaFold / ColabFold JSON,
+ * and annotates interactions with the confidence of the atoms and chains involved
+ */
+
+import { Atom, ModelConfidence, PaeData, SiteInteractions } from '../types/interaction';
+import { CifBlock, isCifMissing } from '../utils/cif';
+import { residueKey } from './pdbParser';
+import { isWater } from './ligandClasses';
+
+// pLDDT below this marks a low-confidence residue (AlphaFold DB colour bands)
+export const LOW_PLDDT_THRESHOLD = 70;
+
+type InteractionType = keyof Omit<SiteInteractions, 'siteId' | 'ligand'>;
+
+const INTERACTION_TYPES: InteractionType[] = [
+  'hydrophobic', 'hbond', 'waterbridge', 'saltbridge', 'pistacking', 'pication', 'halogenbond', 'metal',
+];
+
+// PAE between the residues of two atoms; undefined when either residue has no row
+export type PaeLookup = (a: Atom, b: Atom) => number | undefined;
+
+/**
+ * Ids of the ma_qa_metric entries of the given type and mode (e.g. pLDDT / local)
+ */
+function metricIds(block: CifBlock, type: string, mode: string): Set<string> {
+  const metric = block.categories.get('ma_qa_metric');
+  const ids = new Set<string>();
+  if (!metric) return ids;
+
+  const id = metric.fields.get('id') ?? [];
+  const types = metric.fields.get('type') ?? [];
+  const modes = metric.fields.get('mode') ?? [];
+  for (let row = 0; row < metric.rowCount; row++) {
+    if (types[row]?.toLowerCase() === type.toLowerCase() && modes[row] === mode) {
+      ids.add(id[row]);
+    }
+  }
+  return ids;
+}
+
+/**
+ * True when the block carries ModelCIF (ma_*) categories
+ */
+export function isModelCif(block: CifBlock): boolean {
+  return Array.from(block.categories.keys()).some(name => name.startsWith('ma_'));
+}
+
+/**
+ * Per-residue pLDDT from ModelCIF ma_qa_metric_local, keyed by label_asym_id:label_seq_id
+ */
+export function readModelCifPlddt(block: CifBlock): Map<string, number> {
+  const local = block.categories.get('ma_qa_metric_local');
+  const plddt = new Map<string, number>();
+  if (!local) return plddt;
+
+  const ids = metricIds(block, 'pLDDT', 'local');
+  const asym = local.fields.get('label_asym_id') ?? [];
+  const seq = local.fields.get('label_seq_id') ?? [];
+  const metric = local.fields.get('metric_id') ?? [];
+  const value = local.fields.get('metric_value') ?? [];
+
+  for (let row = 0; row < local.rowCount; row++) {
+    if (ids.size > 0 && !ids.has(metric[row])) continue;
+    const score = parseFloat(value[row]);
+    if (!isNaN(score)) plddt.set(`${asym[row]}:${seq[row]}`, score);
+  }
+  return plddt;
+}
+
+/**
+ * PAE matrix from ModelCIF ma_qa_metric_local_pairwise
+ * Residues are mapped from label to auth identifiers through the given atoms
+ */
+export function readModelCifPae(block: CifBlock, atoms: Atom[]): PaeData | undefined {
+  const pairwise = block.categories.get('ma_qa_metric_local_pairwise');
+  if (!pairwise) return undefined;
+
+  const ids = metricIds(block, 'PAE', 'local-pairwise');
+  const auth = new Map<string, { chain: string; resi: number }>();
+  for (const atom of atoms) {
+    if (atom.labelAsymId === undefined || atom.labelSeqId === undefined) continue;
+    auth.set(`${atom.labelAsymId}:${atom.labelSeqId}`, { chain: atom.chain, resi: atom.resi });
+  }
+
+  const column = (name: string) => pairwise.fields.get(name) ?? [];
+  const asym1 = column('label_asym_id_1');
+  const seq1 = column('label_seq_id_1');
+  const asym2 = column('label_asym_id_2');
+  const seq2 = column('label_seq_id_2');
+  const metric = column('metric_id');
+  const value = column('metric_value');
+
+  const index = new Map<string, number>();
+  const residues: PaeData['residues'] = [];
+  const indexOf = (key: string) => {
+    if (!index.has(key)) {
+      const residue = auth.get(key);
+      if (!residue) return -1;
+      index.set(key, residues.length);
+      residues.push(residue);
+    }
+    return index.get(key)!;
+  };
+
+  const entries: [number, number, number][] = [];
+  for (let row = 0; row < pairwise.rowCount; row++) {
+    if (ids.size > 0 && !ids.has(metric[row])) continue;
+    if (isCifMissing(seq1[row]) || isCifMissing(seq2[row])) continue;
+    const i = indexOf(`${asym1[row]}:${seq1[row]}`);
+    const j = indexOf(`${asym2[row]}:${seq2[row]}`);
+    const error = parseFloat(value[row]);
+    if (i >= 0 && j >= 0 && !isNaN(error)) entries.push([i, j, error]);
+  }
+  if (entries.length === 0) return undefined;
+
+  const matrix = residues.map(() => new Array<number>(residues.length).fill(NaN));
+  for (const [i, j, error] of entries) matrix[i][j] = error;
+  return { matrix, residues };
+}
+
+/**
+ * Parse a PAE JSON file
+ * Accepts AlphaFold DB (current and legacy residue1/residue2/distance layout),
+ * ColabFold and AlphaFold 3 (with token_chain_ids / token_res_ids) output
+ */
+export function parsePaeJson(text: string): PaeData {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('PAE file is not valid JSON');
+  }
+
+  const data = (Array.isArray(json) ? json[0] : json) as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') {
+    throw new Error('PAE file has no data');
+  }
+
+  const isMatrix = (value: unknown): value is number[][] =>
+    Array.isArray(value) && value.length > 0 && value.every(row => Array.isArray(row) && row.length === value.length);
+
+  const square = data.predicted_aligned_error ?? data.pae;
+  if (isMatrix(square)) {
+    const chains = data.token_chain_ids;
+    const resIds = data.token_res_ids;
+    const residues = Array.isArray(chains) && Array.isArray(resIds) && chains.length === square.length
+      ? chains.map((chain, i) => ({ chain: String(chain), resi: Number(resIds[i]) }))
+      : undefined;
+    return { matrix: square, residues };
+  }
+
+  // Legacy AlphaFold DB: flattened 1-based residue indices with one distance per pair
+  const { residue1, residue2, distance } = data as { residue1?: number[]; residue2?: number[]; distance?: number[] };
+  if (Array.isArray(residue1) && Array.isArray(residue2) && Array.isArray(distance)) {
+    const size = residue1.reduce((max, residue) => Math.max(max, residue), 0);
+    const matrix = Array.from({ length: size }, () => new Array<number>(size).fill(NaN));
+    distance.forEach((error, k) => {
+      matrix[residue1[k] - 1][residue2[k] - 1] = error;
+    });
+    return { matrix };
+  }
+
+  throw new Error('Unrecognized PAE file: expected predicted_aligned_error or pae matrix');
+}
+
+/**
+ * Map PAE rows onto the residues of a model
+ * Without explicit residues, rows follow polymer residues in file order (all non-water residues
+ * when that matches the matrix size instead); throws when neither matches
+ */
+export function buildPaeLookup(pae: PaeData, atoms: Atom[]): PaeLookup {
+  const size = pae.matrix.length;
+  const rows = new Map<string, number[]>();
+  const addRow = (key: string, row: number) => {
+    if (!rows.has(key)) rows.set(key, []);
+    rows.get(key)!.push(row);
+  };
+
+  if (pae.residues) {
+    // AlphaFold 3 gives ligands one token per atom, so a residue can own several rows
+    pae.residues.forEach((residue, row) => addRow(`${residue.chain}:${residue.resi}`, row));
+  } else {
+    const residuesInOrder = (include: (atom: Atom) => boolean) => {
+      const keys: string[] = [];
+      const seen = new Set<string>();
+      for (const atom of atoms) {
+        const key = residueKey(atom);
+        if (seen.has(key) || !include(atom)) continue;
+        seen.add(key);
+        keys.push(key);
+      }
+      return keys;
+    };
+
+    const polymer = residuesInOrder(atom => !atom.hetflag);
+    const nonWater = residuesInOrder(atom => !isWater(atom.resn));
+    const keys = polymer.length === size ? polymer : nonWater.length === size ? nonWater : null;
+    if (!keys) {
+      throw new Error(`PAE matrix has ${size} rows but the structure has ${polymer.length} polymer residues`);
+    }
+    keys.forEach((key, row) => addRow(key, row));
+  }
+
+  const rowsOf = (atom: Atom) => rows.get(pae.residues ? `${atom.chain}:${atom.resi}` : residueKey(atom));
+
+  return (a, b) => {
+    const rowsA = rowsOf(a);
+    const rowsB = rowsOf(b);
+    if (!rowsA || !rowsB) return undefined;
+
+    // PAE is asymmetric; average both directions over every pair of rows
+    let sum = 0;
+    let count = 0;
+    for (const i of rowsA) {
+      for (const j of rowsB) {
+        for (const error of [pae.matrix[i][j], pae.matrix[j][i]]) {
+          if (!isNaN(error)) {
+            sum += error;
+            count++;
+          }
+        }
+      }
+    }
+    return count > 0 ? Number((sum / count).toFixed(2)) : undefined;
+  };
+}
+
+/**
+ * Serials of the atoms an interaction record involves
+ */
+function involvedSerials(record: object): number[] {
+  const serials: number[] = [];
+  for (const [key, value] of Object.entries(record)) {
+    if (key.endsWith('Serial') && typeof value === 'number') serials.push(value);
+  }
+  if ('coordinatingAtoms' in record && Array.isArray(record.coordinatingAtoms)) {
+    for (const atom of record.coordinatingAtoms) serials.push(atom.serial);
+  }
+  return serials;
+}
+
+/**
+ * Set plddt (lowest over the atoms involved) and pae (highest between the ligand and
+ * atoms of other chains) on every interaction of the given sites
+ */
+export function annotateConfidence(
+  sites: SiteInteractions[],
+  atomsBySerial: Map<number, Atom>,
+  pae?: PaeLookup
+) {
+  for (const site of sites) {
+    const ligandAtom = site.ligand.atoms[0];
+
+    for (const type of INTERACTION_TYPES) {
+      for (const record of site[type]) {
+        const atoms = involvedSerials(record)
+          .map(serial => atomsBySerial.get(serial))
+          .filter((atom): atom is Atom => atom !== undefined);
+
+        const scores = atoms.map(atom => atom.plddt).filter((score): score is number => score !== undefined);
+        if (scores.length > 0) record.plddt = Math.min(...scores);
+
+        if (pae && ligandAtom) {
+          const errors = atoms
+            .filter(atom => atom.chain !== site.ligand.chain)
+            .map(atom => pae(ligandAtom, atom))
+            .filter((error): error is number => error !== undefined);
+          if (errors.length > 0) record.pae = Math.max(...errors);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Mean and low-confidence count of per-residue pLDDT (mean over each residue's atoms)
+ */
+export function summarizeConfidence(
+  atoms: Atom[],
+  source: ModelConfidence['source'],
+  pae: boolean
+): ModelConfidence {
+  const residues = new Map<string, { sum: number; count: number }>();
+  for (const atom of atoms) {
+    if (atom.plddt === undefined || isWater(atom.resn)) continue;
+    const key = residueKey(atom);
+    const entry = residues.get(key) ?? { sum: 0, count: 0 };
+    entry.sum += atom.plddt;
+    entry.count++;
+    residues.set(key, entry);
+  }
+
+  const scores = Array.from(residues.values()).map(({ sum, count }) => sum / count);
+  const mean = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+
+  return {
+    source,
+    meanPlddt: Number(mean.toFixed(1)),
+    lowPlddtResidues: scores.filter(score => score < LOW_PLDDT_THRESHOLD).length,
+    pae,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Covalent ligand detection
+ * Finds bonds between ligand and receptor atoms from LINK/struct_conn/CONECT records or,
+ * where none are recorded, from covalent radii
+ */
+
+import { Atom, BindingSite, CovalentBond, Ligand } from '../types/interaction';
+import { METAL_ELEMENTS, distance, residueLabel } from './pdbParser';
+import { SpatialGrid, findNeighbors } from './spatialGrid';
+import { inferBonds, isBonded } from './bondPerception';
+import { isNucleotide } from './nucleotides';
+
+// Longest ligand–receptor bond accepted from a record (Å); distance-based bonds use isBonded
+const MAX_RECORDED_BOND_DISTANCE = 3.0;
+
+// Contacts at most this many bonds apart through a covalent bond are not non-covalent
+const MAX_EXCLUDED_BOND_PATH = 3;
+
+/**
+ * Find covalent bonds between a ligand and the receptor
+ * Metal coordination, water and ions are not covalent attachments
+ */
+export function findCovalentBonds(ligand: Ligand, proteinGrid: SpatialGrid): CovalentBond[] {
+  const bonds: CovalentBond[] = [];
+
+  for (const ligandAtom of ligand.atoms) {
+    if (METAL_ELEMENTS.has(ligandAtom.element)) continue;
+
+    for (const proteinAtom of findNeighbors(proteinGrid, ligandAtom, MAX_RECORDED_BOND_DISTANCE)) {
+      if (METAL_ELEMENTS.has(proteinAtom.element)) continue;
+      // Besides nucleotides, the only HETATM residues kept with the receptor are water and ions
+      if (proteinAtom.hetflag && !isNucleotide(proteinAtom.resn)) continue;
+
+      const recorded = ligandAtom.conect?.includes(proteinAtom.serial) ?? false;
+      if (!recorded && !isBonded(ligandAtom, proteinAtom)) continue;
+
+      bonds.push({
+        residue: residueLabel(proteinAtom),
+        aa: proteinAtom.resn,
+        distance: Number(distance(ligandAtom, proteinAtom).toFixed(3)),
+        ligandAtomSerial: ligandAtom.serial,
+        proteinAtomSerial: proteinAtom.serial,
+        ligandAtomName: ligandAtom.atomName,
+        proteinAtomName: proteinAtom.atomName,
+        source: recorded ? 'record' : 'distance',
+      });
+    }
+  }
+
+  return bonds.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Bond counts from an atom to the atoms at most maxDepth bonds away, keyed by serial
+ * Only atoms within bonding reach of the origin are perceived
+ */
+function bondDepths(origin: Atom, atoms: Atom[], maxDepth: number): Map<number, number> {
+  const local = atoms.filter(atom => distance(atom, origin) <= maxDepth * MAX_RECORDED_BOND_DISTANCE);
+  const bonds = inferBonds(local);
+
+  const depths = new Map<number, number>([[origin.serial, 0]]);
+  let frontier = [origin];
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: Atom[] = [];
+    for (const atom of frontier) {
+      for (const neighbor of bonds.get(atom.serial) ?? []) {
+        if (depths.has(neighbor.serial)) continue;
+        depths.set(neighbor.serial, depth);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+  return depths;
+}
+
+/**
+ * Ligand–receptor atom pairs joined through a covalent bond by at most three bonds
+ * (1-2, 1-3 and 1-4 pairs); keys hold both serial orders, e.g. "12|345" and "345|12"
+ */
+export function covalentExclusions(bindingSite: BindingSite): Set<string> {
+  const excluded = new Set<string>();
+  const { ligand, pocketAtoms } = bindingSite;
+  if (!ligand.covalentBonds || ligand.covalentBonds.length === 0) return excluded;
+
+  for (const bond of ligand.covalentBonds) {
+    const ligandAtom = ligand.atoms.find(atom => atom.serial === bond.ligandAtomSerial);
+    const proteinAtom = pocketAtoms.find(atom => atom.serial === bond.proteinAtomSerial);
+    if (!ligandAtom || !proteinAtom) continue;
+
+    // The covalent bond itself is one of the three
+    const ligandDepths = bondDepths(ligandAtom, ligand.atoms, MAX_EXCLUDED_BOND_PATH - 1);
+    const proteinDepths = bondDepths(proteinAtom, pocketAtoms, MAX_EXCLUDED_BOND_PATH - 1);
+    for (const [ligandSerial, ligandDepth] of ligandDepths) {
+      for (const [proteinSerial, proteinDepth] of proteinDepths) {
+        if (ligandDepth + 1 + proteinDepth > MAX_EXCLUDED_BOND_PATH) continue;
+        excluded.add(`${ligandSerial}|${proteinSerial}`);
+        excluded.add(`${proteinSerial}|${ligandSerial}`);
+      }
+    }
+  }
+
+  return excluded;
+}
+
+/**
+ * Check whether any ligand atom of a group pair is within three bonds of any receptor atom
+ * through a covalent bond
+ */
+export function isCovalentlyLinked(excluded: Set<string>, ligandAtoms: Atom[], proteinAtoms: Atom[]): boolean {
+  if (excluded.size === 0) return false;
+  return ligandAtoms.some(ligandAtom =>
+    proteinAtoms.some(proteinAtom => excluded.has(`${ligandAtom.serial}|${proteinAtom.serial}`))
+  );
+}
+
+/**
+ * Drop non-covalent records whose atom pair is within three bonds through a covalent
+ * ligand–receptor bond (see covalentExclusions)
+ * pair returns the two atom serials of a record; indices are renumbered
+ */
+export function excludeCovalentPairs<T extends { index: number }>(
+  records: T[],
+  excluded: Set<string>,
+  pair: (record: T) => [number, number]
+): T[] {
+  if (excluded.size === 0) return records;
+
+  const kept = records.filter(record => !excluded.has(pair(record).join('|')));
+  kept.forEach((record, i) => {
+    record.index = i + 1;
+  });
+  return kept;
+}
@@ -0,0 +1,89 @@
+/**
+ * Vector geometry helpers
+ * Small 3D utilities shared by the interaction detectors
+ */
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Vector from a to b
+ */
+export function subtract(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/**
+ * Dot product
+ */
+export function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/**
+ * Cross product
+ */
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+/**
+ * Vector length
+ */
+export function norm(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+/**
+ * Unit vector (returns the zero vector unchanged)
+ */
+export function normalize(a: Vec3): Vec3 {
+  const len = norm(a);
+  if (len === 0) return { x: 0, y: 0, z: 0 };
+  return { x: a.x / len, y: a.y / len, z: a.z / len };
+}
+
+/**
+ * Euclidean distance between two points
+ */
+export function pointDistance(a: Vec3, b: Vec3): number {
+  return norm(subtract(a, b));
+}
+
+/**
+ * Geometric center of a set of points
+ */
+export function centroid(points: Vec3[]): Vec3 {
+  const sum = { x: 0, y: 0, z: 0 };
+  for (const p of points) {
+    sum.x += p.x;
+    sum.y += p.y;
+    sum.z += p.z;
+  }
+  const n = points.length || 1;
+  return { x: sum.x / n, y: sum.y / n, z: sum.z / n };
+}
+
+/**
+ * Angle between two vectors in degrees (0-180)
+ */
+export function vectorAngle(a: Vec3, b: Vec3): number {
+  const denom = norm(a) * norm(b);
+  if (denom === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, dot(a, b) / denom));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+/**
+ * Angle a-b-c at vertex b in degrees
+ */
+export function angleAt(a: Vec3, b: Vec3, c: Vec3): number {
+  return vectorAngle(subtract(a, b), subtract(c, b));
+}
@@ -0,0 +1,471 @@
+/**
+ * Hydrogen handling
+ * Attaches explicit hydrogens to their heavy atoms, or places idealized polar
+ * hydrogens on heavy-atom-only structures
+ */
+
+import { Atom } from '../types/interaction';
+import { buildSpatialGrid, findNeighbors, distance } from './spatialGrid';
+import { METAL_ELEMENTS, findReceptorContextAtoms, residueKey } from './pdbParser';
+import { groupLigandResidues } from './ligandGroups';
+import { Hybridization, estimateBondOrder, inferBonds, inferHybridization, isBonded } from './bondPerception';
+import { findSmallestRings } from './rings';
+import { Vec3, cross, dot, normalize, subtract } from './geometry';
+import { NucleotideBase, getNucleotideTemplate, isNucleotide } from './nucleotides';
+
+// Longest X-H bond considered when assigning a hydrogen to its parent (Å)
+const MAX_XH_BOND = 1.3;
+
+// Ideal X-H bond lengths (Å)
+const XH_BOND_LENGTH: Record<string, number> = { N: 1.01, O: 0.96, S: 1.34 };
+
+const TETRAHEDRAL_ANGLE = 109.47;
+
+// Metal-nitrogen distance (Å) at which a histidine nitrogen is taken as coordinating
+const HIS_METAL_DIST = 2.8;
+
+// Mean ring C-N length (Å) separating pyrrole-type NH from pyridine-type N in 5-membered rings
+const PYRROLE_NH_BOND_LENGTH = 1.36;
+
+/**
+ * Polar hydrogens of a residue atom
+ * Neighbors define the bond directions; the reference atom fixes the dihedral
+ * of terminal groups (hydrogens are placed anti to it)
+ */
+interface HydrogenTemplate {
+  atom: string;
+  neighbors: string[];
+  reference?: string;
+  hybridization: Hybridization;
+  names: string[];
+}
+
+/**
+ * Side chain polar hydrogen templates for standard residues
+ * Histidine is handled separately because its tautomer varies
+ */
+const RESIDUE_HYDROGEN_TEMPLATES: Record<string, HydrogenTemplate[]> = {
+  SER: [{ atom: 'OG', neighbors: ['CB'], reference: 'CA', hybridization: 'sp3', names: ['HG'] }],
+  THR: [{ atom: 'OG1', neighbors: ['CB'], reference: 'CA', hybridization: 'sp3', names: ['HG1'] }],
+  TYR: [{ atom: 'OH', neighbors: ['CZ'], reference: 'CE1', hybridization: 'sp2', names: ['HH'] }],
+  CYS: [{ atom: 'SG', neighbors: ['CB'], reference: 'CA', hybridization: 'sp3', names: ['HG'] }],
+  LYS: [{ atom: 'NZ', neighbors: ['CE'], reference: 'CD', hybridization: 'sp3', names: ['HZ1', 'HZ2', 'HZ3'] }],
+  ARG: [
+    { atom: 'NE', neighbors: ['CD', 'CZ'], hybridization: 'sp2', names: ['HE'] },
+    { atom: 'NH1', neighbors: ['CZ'], reference: 'NE', hybridization: 'sp2', names: ['HH11', 'HH12'] },
+    { atom: 'NH2', neighbors: ['CZ'], reference: 'NE', hybridization: 'sp2', names: ['HH21', 'HH22'] },
+  ],
+  ASN: [{ atom: 'ND2', neighbors: ['CG'], reference: 'OD1', hybridization: 'sp2', names: ['HD21', 'HD22'] }],
+  GLN: [{ atom: 'NE2', neighbors: ['CD'], reference: 'OE1', hybridization: 'sp2', names: ['HE21', 'HE22'] }],
+  TRP: [{ atom: 'NE1', neighbors: ['CD1', 'CE2'], hybridization: 'sp2', names: ['HE1'] }],
+};
+
+/**
+ * Polar hydrogen templates for nucleotide bases (Watson–Crick and Hoogsteen edge donors)
+ */
+const NUCLEOTIDE_HYDROGEN_TEMPLATES: Record<NucleotideBase, HydrogenTemplate[]> = {
+  A: [{ atom: 'N6', neighbors: ['C6'], reference: 'N1', hybridization: 'sp2', names: ['H61', 'H62'] }],
+  G: [
+    { atom: 'N1', neighbors: ['C2', 'C6'], hybridization: 'sp2', names: ['H1'] },
+    { atom: 'N2', neighbors: ['C2'], reference: 'N1', hybridization: 'sp2', names: ['H21', 'H22'] },
+  ],
+  I: [{ atom: 'N1', neighbors: ['C2', 'C6'], hybridization: 'sp2', names: ['H1'] }],
+  C: [{ atom: 'N4', neighbors: ['C4'], reference: 'N3', hybridization: 'sp2', names: ['H41', 'H42'] }],
+  U: [{ atom: 'N3', neighbors: ['C2', 'C4'], hybridization: 'sp2', names: ['H3'] }],
+  T: [{ atom: 'N3', neighbors: ['C2', 'C4'], hybridization: 'sp2', names: ['H3'] }],
+};
+
+// Ribose 2'-hydroxyl of RNA nucleotides
+const RIBOSE_HYDROGEN_TEMPLATE: HydrogenTemplate = {
+  atom: 'O2\'', neighbors: ['C2\''], reference: 'C3\'', hybridization: 'sp3', names: ['HO2\''],
+};
+
+const HISTIDINE_HYDROGEN_TEMPLATES: Record<string, HydrogenTemplate> = {
+  ND1: { atom: 'ND1', neighbors: ['CG', 'CE1'], hybridization: 'sp2', names: ['HD1'] },
+  NE2: { atom: 'NE2', neighbors: ['CD2', 'CE1'], hybridization: 'sp2', names: ['HE2'] },
+};
+
+// Histidine residue names and the nitrogens they protonate
+const HISTIDINE_TAUTOMERS: Record<string, string[]> = {
+  HID: ['ND1'], HSD: ['ND1'],
+  HIE: ['NE2'], HSE: ['NE2'],
+  HIP: ['ND1', 'NE2'], HSP: ['ND1', 'NE2'], HSH: ['ND1', 'NE2'],
+};
+
+/**
+ * Check whether an atom is a hydrogen (or deuterium)
+ */
+export function isHydrogen(atom: Atom): boolean {
+  return atom.element === 'H' || atom.element === 'D';
+}
+
+/**
+ * Check whether an atom carries explicit hydrogens
+ */
+export function hasHydrogens(atom: Atom): boolean {
+  return atom.hydrogens !== undefined && atom.hydrogens.length > 0;
+}
+
+/**
+ * Assign each hydrogen to the nearest heavy atom of the same residue
+ * Fills Atom.hydrogens in place; hydrogens without a parent are dropped
+ */
+export function assignHydrogens(heavyAtoms: Atom[], hydrogens: Atom[]): void {
+  if (hydrogens.length === 0) return;
+
+  const grid = buildSpatialGrid(heavyAtoms, 2.0);
+
+  for (const hydrogen of hydrogens) {
+    let parent: Atom | null = null;
+    let parentDist = Infinity;
+
+    for (const candidate of findNeighbors(grid, hydrogen, MAX_XH_BOND)) {
+      if (residueKey(candidate) !== residueKey(hydrogen)) {
+        continue;
+      }
+
+      const dist = distance(hydrogen, candidate);
+      if (dist < parentDist) {
+        parent = candidate;
+        parentDist = dist;
+      }
+    }
+
+    if (parent) {
+      if (!parent.hydrogens) {
+        parent.hydrogens = [];
+      }
+      parent.hydrogens.push(hydrogen);
+    }
+  }
+}
+
+/**
+ * Rotate a vector around a unit axis (Rodrigues, axis perpendicular to v)
+ */
+function rotateAround(v: Vec3, axis: Vec3, degrees: number): Vec3 {
+  const rad = (degrees * Math.PI) / 180;
+  const c = cross(axis, v);
+  return {
+    x: v.x * Math.cos(rad) + c.x * Math.sin(rad),
+    y: v.y * Math.cos(rad) + c.y * Math.sin(rad),
+    z: v.z * Math.cos(rad) + c.z * Math.sin(rad),
+  };
+}
+
+/**
+ * Unit vector perpendicular to axis, pointing away from the reference atom when given
+ */
+function perpendicularAway(axis: Vec3, origin: Vec3, reference?: Vec3): Vec3 {
+  if (reference) {
+    const r = subtract(reference, origin);
+    const along = dot(r, axis);
+    const perp = normalize({ x: r.x - along * axis.x, y: r.y - along * axis.y, z: r.z - along * axis.z });
+    if (perp.x !== 0 || perp.y !== 0 || perp.z !== 0) {
+      return { x: -perp.x, y: -perp.y, z: -perp.z };
+    }
+  }
+  // Any perpendicular direction
+  const helper = Math.abs(axis.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  return normalize(cross(axis, helper));
+}
+
+/**
+ * Combine an axis and a perpendicular direction at a given angle from the axis
+ */
+function tilt(axis: Vec3, perp: Vec3, degrees: number): Vec3 {
+  const rad = (degrees * Math.PI) / 180;
+  return {
+    x: axis.x * Math.cos(rad) + perp.x * Math.sin(rad),
+    y: axis.y * Math.cos(rad) + perp.y * Math.sin(rad),
+    z: axis.z * Math.cos(rad) + perp.z * Math.sin(rad),
+  };
+}
+
+/**
+ * Idealized hydrogen bond directions for an atom with the given heavy-atom neighbors
+ * Returns unit vectors; at most `count` directions are returned
+ */
+function hydrogenDirections(
+  center: Atom,
+  neighbors: Atom[],
+  count: number,
+  hybridization: Hybridization,
+  reference?: Atom
+): Vec3[] {
+  if (count <= 0 || neighbors.length === 0) return [];
+
+  const bonds = neighbors.map(neighbor => normalize(subtract(neighbor, center)));
+  const sum = bonds.reduce((acc, b) => ({ x: acc.x + b.x, y: acc.y + b.y, z: acc.z + b.z }), { x: 0, y: 0, z: 0 });
+  const away = normalize({ x: -sum.x, y: -sum.y, z: -sum.z });
+
+  // Three or more neighbors: the remaining position points away from all of them
+  if (bonds.length >= 3) {
+    return [away];
+  }
+
+  // Two neighbors: bisector for planar atoms, tetrahedral pair otherwise
+  if (bonds.length === 2) {
+    if (hybridization !== 'sp3') {
+      return [away];
+    }
+    const perp = normalize(cross(bonds[0], bonds[1]));
+    const half = TETRAHEDRAL_ANGLE / 2;
+    return [tilt(away, perp, half), tilt(away, { x: -perp.x, y: -perp.y, z: -perp.z }, half)].slice(0, count);
+  }
+
+  // One neighbor: place around the bond axis, starting anti to the reference atom
+  const axis = away;
+  if (hybridization === 'sp') {
+    return [axis];
+  }
+
+  const perp = perpendicularAway(axis, neighbors[0], reference);
+  if (hybridization === 'sp2') {
+    const directions = [tilt(axis, perp, 60), tilt(axis, { x: -perp.x, y: -perp.y, z: -perp.z }, 60)];
+    return directions.slice(0, count);
+  }
+
+  const directions = [0, 120, 240].map(rotation =>
+    tilt(axis, rotateAround(perp, axis, rotation), 180 - TETRAHEDRAL_ANGLE)
+  );
+  return directions.slice(0, count);
+}
+
+/**
+ * Build a hydrogen atom bonded to a parent
+ */
+function createHydrogen(parent: Atom, direction: Vec3, serial: number, atomName: string): Atom {
+  const length = XH_BOND_LENGTH[parent.element] ?? 1.0;
+  return {
+    serial,
+    atomName,
+    resn: parent.resn,
+    chain: parent.chain,
+    resi: parent.resi,
+    iCode: parent.iCode,
+    x: parent.x + direction.x * length,
+    y: parent.y + direction.y * length,
+    z: parent.z + direction.z * length,
+    element: 'H',
+    hetflag: parent.hetflag,
+    altLoc: '',
+  };
+}
+
+/**
+ * Hydrogen names for a ligand atom (e.g. N1 -> HN1, or HN11/HN12 for two)
+ */
+function ligandHydrogenNames(parent: Atom, count: number): string[] {
+  if (count === 1) {
+    return [`H${parent.atomName}`.slice(0, 4)];
+  }
+  const base = `H${parent.atomName}`.slice(0, 3);
+  return Array.from({ length: count }, (_, i) => `${base}${i + 1}`);
+}
+
+/**
+ * Number of hydrogens implied for a ligand atom in its neutral form
+ * Carboxylates, phosphates and sulfonates are left deprotonated
+ */
+export function countImplicitHydrogens(atom: Atom, neighbors: Atom[], ringSizes: number[]): number {
+  if (neighbors.length === 0) return 0;
+
+  const orders = neighbors.map(neighbor => estimateBondOrder(atom, neighbor));
+  const maxOrder = Math.max(...orders);
+
+  switch (atom.element) {
+    case 'C':
+      return Math.max(0, Math.round(4 - orders.reduce((sum, order) => sum + order, 0)));
+
+    case 'O':
+      if (neighbors.length !== 1) return 0;
+      if (neighbors[0].element === 'P' || neighbors[0].element === 'S') return 0;
+      return orders[0] > 1 ? 0 : 1;
+
+    case 'S':
+      return neighbors.length === 1 && orders[0] === 1 ? 1 : 0;
+
+    case 'N':
+      if (neighbors.length >= 3) return 0;
+      if (neighbors.length === 2) {
+        if (maxOrder >= 2) return 0;
+        if (ringSizes.includes(6) && maxOrder > 1) return 0;  // Pyridine-type
+        if (ringSizes.includes(5) && maxOrder > 1) {
+          const meanLength = (distance(atom, neighbors[0]) + distance(atom, neighbors[1])) / 2;
+          return meanLength >= PYRROLE_NH_BOND_LENGTH ? 1 : 0;
+        }
+        return 1;
+      }
+      if (orders[0] === 3) return 0;
+      return orders[0] === 2 ? 1 : 2;
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Place polar hydrogens on a protein from residue templates
+ */
+function placeProteinHydrogens(
+  proteinAtoms: Atom[],
+  metals: Atom[],
+  place: (parent: Atom, neighbors: Atom[], count: number, hybridization: Hybridization, names: string[], reference?: Atom) => void
+): void {
+  const residues = new Map<string, Map<string, Atom>>();
+  for (const atom of proteinAtoms) {
+    const key = residueKey(atom);
+    if (!residues.has(key)) {
+      residues.set(key, new Map());
+    }
+    residues.get(key)!.set(atom.atomName.toUpperCase(), atom);
+  }
+
+  const applyTemplate = (residue: Map<string, Atom>, template: HydrogenTemplate) => {
+    const parent = residue.get(template.atom);
+    const neighbors = template.neighbors.map(name => residue.get(name));
+    if (!parent || neighbors.some(atom => !atom)) return;
+    const reference = template.reference ? residue.get(template.reference) : undefined;
+    place(parent, neighbors as Atom[], template.names.length, template.hybridization, template.names, reference);
+  };
+
+  // Residues are visited in file order, so the preceding residue of a chain also covers insertion codes
+  const previousInChain = new Map<string, Map<string, Atom>>();
+
+  for (const residue of residues.values()) {
+    const first = residue.values().next().value!;
+    const resn = first.resn.toUpperCase();
+    const previousC = previousInChain.get(first.chain)?.get('C');
+    previousInChain.set(first.chain, residue);
+
+    // Backbone amide; residues without a bonded preceding C are chain starts (NH3+)
+    const n = residue.get('N');
+    const ca = residue.get('CA');
+    if (n && ca) {
+      const cd = residue.get('CD');
+      if (previousC && isBonded(n, previousC)) {
+        if (resn !== 'PRO') {
+          place(n, [ca, previousC], 1, 'sp2', ['H']);
+        }
+      } else if (resn === 'PRO' && cd) {
+        place(n, [ca, cd], 2, 'sp3', ['H2', 'H3']);
+      } else {
+        place(n, [ca], 3, 'sp3', ['H1', 'H2', 'H3'], residue.get('C'));
+      }
+    }
+
+    // Free cysteines only; disulfide-bonded SG carries no hydrogen
+    if (resn === 'CYS') {
+      const sg = residue.get('SG');
+      const bridged = sg && proteinAtoms.some(atom => atom !== sg && atom.atomName === 'SG' && distance(atom, sg) < 2.5);
+      if (bridged) continue;
+    }
+
+    if (resn in HISTIDINE_TAUTOMERS || resn === 'HIS') {
+      let protonated = HISTIDINE_TAUTOMERS[resn];
+      if (!protonated) {
+        // Default to the NE2 tautomer unless NE2 coordinates a metal
+        const ne2 = residue.get('NE2');
+        const ne2Metal = ne2 && metals.some(metal => distance(metal, ne2) <= HIS_METAL_DIST);
+        protonated = ne2Metal ? ['ND1'] : ['NE2'];
+      }
+      for (const name of protonated) {
+        applyTemplate(residue, HISTIDINE_HYDROGEN_TEMPLATES[name]);
+      }
+      continue;
+    }
+
+    const nucleotide = getNucleotideTemplate(resn);
+    if (nucleotide) {
+      for (const template of NUCLEOTIDE_HYDROGEN_TEMPLATES[nucleotide.base]) {
+        applyTemplate(residue, template);
+      }
+      if (!nucleotide.dna) {
+        applyTemplate(residue, RIBOSE_HYDROGEN_TEMPLATE);
+      }
+      continue;
+    }
+
+    for (const template of RESIDUE_HYDROGEN_TEMPLATES[resn] ?? []) {
+      applyTemplate(residue, template);
+    }
+  }
+}
+
+/**
+ * Place polar hydrogens on a ligand from its inferred connectivity and hybridization
+ */
+function placeLigandHydrogens(
+  ligandAtoms: Atom[],
+  place: (parent: Atom, neighbors: Atom[], count: number, hybridization: Hybridization, names: string[], reference?: Atom) => void
+): void {
+  const adjacency = inferBonds(ligandAtoms);
+
+  const ringSizes = new Map<number, number[]>();
+  for (const ring of findSmallestRings(ligandAtoms, adjacency)) {
+    for (const atom of ring) {
+      ringSizes.set(atom.serial, [...(ringSizes.get(atom.serial) ?? []), ring.length]);
+    }
+  }
+
+  for (const atom of ligandAtoms) {
+    if (atom.element !== 'N' && atom.element !== 'O' && atom.element !== 'S') continue;
+
+    const neighbors = adjacency.get(atom.serial) ?? [];
+    const count = countImplicitHydrogens(atom, neighbors, ringSizes.get(atom.serial) ?? []);
+    if (count === 0) continue;
+
+    // Terminal groups are oriented against another substituent of their neighbor
+    const reference = neighbors.length === 1
+      ? (adjacency.get(neighbors[0].serial) ?? []).find(other => other !== atom)
+      : undefined;
+
+    place(atom, neighbors, count, inferHybridization(atom, adjacency), ligandHydrogenNames(atom, count), reference);
+  }
+}
+
+/**
+ * Add idealized polar hydrogens (N-H, O-H, S-H) to a heavy-atom-only structure
+ * Protein residues use templates (backbone NH, hydroxyls, LYS/ARG, HIS tautomers, nucleotide bases);
+ * ligands use inferred hybridization. Water and ions are left untouched.
+ * Returns the input atoms followed by the new hydrogens, which are also attached
+ * to their parents via Atom.hydrogens
+ */
+export function addHydrogens(atoms: Atom[]): Atom[] {
+  const hydrogens: Atom[] = [];
+  let nextSerial = atoms.reduce((max, atom) => Math.max(max, atom.serial), 0) + 1;
+
+  const place = (
+    parent: Atom,
+    neighbors: Atom[],
+    count: number,
+    hybridization: Hybridization,
+    names: string[],
+    reference?: Atom
+  ) => {
+    if (hasHydrogens(parent)) return;
+
+    const directions = hydrogenDirections(parent, neighbors, count, hybridization, reference);
+    if (directions.length === 0) return;
+
+    parent.hydrogens = directions.map((direction, i) =>
+      createHydrogen(parent, direction, nextSerial++, names[i] ?? names[0])
+    );
+    hydrogens.push(...parent.hydrogens);
+  };
+
+  const metals = atoms.filter(atom => METAL_ELEMENTS.has(atom.element));
+  placeProteinHydrogens(atoms.filter(atom => !atom.hetflag || isNucleotide(atom.resn)), metals, place);
+
+  const receptorContext = findReceptorContextAtoms(atoms);
+  const ligandAtoms = atoms.filter(atom =>
+    atom.hetflag && !receptorContext.has(atom) && !isNucleotide(atom.resn)
+  );
+  // Bonded residues are placed together so linking atoms (glycosidic oxygens) get no extra hydrogen
+  for (const residueAtoms of groupLigandResidues(ligandAtoms, true)) {
+    placeLigandHydrogens(residueAtoms, place);
+  }
+
+  return [...atoms, ...hydrogens];
+}
@@ -0,0 +1,107 @@
+/**
+ * Halogen bond detection
+ * Checks C-X···A and X···A-Y geometry between ligand halogens and protein acceptors
+ */
+
+import { Atom, BindingSite, HalogenbondInteraction } from '../../types/interaction';
+import { SpatialGrid, findNeighbors, distance } from '../spatialGrid';
+import { residueLabel } from '../pdbParser';
+import { inferBonds, isBonded } from '../bondPerception';
+import { angleAt } from '../geometry';
+import { getProteinAtomProperties } from './hbond';
+import { isWater } from '../ligandClasses';
+
+// Ideal C-X···A angle (σ-hole points along the C-X bond)
+const HALOGEN_DON_ANGLE = 165;
+
+// Ideal X···A-Y angle (approach towards the acceptor lone pair)
+const HALOGEN_ACC_ANGLE = 120;
+
+// Allowed deviation (degrees) from the ideal angles
+const HALOGEN_ANGLE_DEV = 30;
+
+/**
+ * Find heavy atoms covalently bonded to a protein atom
+ */
+function getBondedProteinAtoms(atom: Atom, proteinGrid: SpatialGrid): Atom[] {
+  return findNeighbors(proteinGrid, atom, 2.0).filter(
+    neighbor => neighbor.chain === atom.chain && isBonded(atom, neighbor)
+  );
+}
+
+/**
+ * Find halogen bonds for a binding site
+ */
+export function findHalogenbondInteractions(
+  bindingSite: BindingSite,
+  proteinGrid: SpatialGrid,
+  maxDist: number,
+  includeFluorine: boolean = false
+): HalogenbondInteraction[] {
+  const interactions: HalogenbondInteraction[] = [];
+  const { ligand } = bindingSite;
+
+  const halogens = new Set(['Cl', 'Br', 'I']);
+  if (includeFluorine) {
+    halogens.add('F');
+  }
+
+  const ligandBonds = inferBonds(ligand.atoms);
+
+  let index = 1;
+
+  for (const halogen of ligand.atoms) {
+    if (!halogens.has(halogen.element)) continue;
+
+    // Halogen must be bonded to carbon
+    const donorCarbon = (ligandBonds.get(halogen.serial) ?? []).find(atom => atom.element === 'C');
+    if (!donorCarbon) continue;
+
+    const neighbors = findNeighbors(proteinGrid, halogen, maxDist);
+
+    for (const acceptor of neighbors) {
+      if (isWater(acceptor.resn)) continue;
+      if (!getProteinAtomProperties(acceptor).acceptor) continue;
+
+      const dist = distance(halogen, acceptor);
+      if (dist > maxDist) continue;
+
+      const donorAngle = angleAt(donorCarbon, halogen, acceptor);
+      if (Math.abs(donorAngle - HALOGEN_DON_ANGLE) > HALOGEN_ANGLE_DEV) continue;
+
+      // Pick the acceptor substituent giving the angle closest to ideal
+      let acceptorAngle = NaN;
+      for (const y of getBondedProteinAtoms(acceptor, proteinGrid)) {
+        const angle = angleAt(halogen, acceptor, y);
+        if (isNaN(acceptorAngle) ||
+            Math.abs(angle - HALOGEN_ACC_ANGLE) < Math.abs(acceptorAngle - HALOGEN_ACC_ANGLE)) {
+          acceptorAngle = angle;
+        }
+      }
+      if (isNaN(acceptorAngle) || Math.abs(acceptorAngle - HALOGEN_ACC_ANGLE) > HALOGEN_ANGLE_DEV) continue;
+
+      interactions.push({
+        index: index++,
+        residue: residueLabel(acceptor),
+        aa: acceptor.resn,
+        distance: Number(dist.toFixed(3)),
+        donorAngle: Number(donorAngle.toFixed(1)),
+        acceptorAngle: Number(acceptorAngle.toFixed(1)),
+        halogen: halogen.element,
+        acceptorAtomName: acceptor.atomName,
+        ligandAtomSerial: halogen.serial,
+        proteinAtomSerial: acceptor.serial,
+      });
+    }
+  }
+
+  // Sort by distance
+  interactions.sort((a, b) => a.distance - b.distance);
+
+  // Update indices after sorting
+  interactions.forEach((interaction, i) => {
+    interaction.index = i + 1;
+  });
+
+  return interactions;
+}
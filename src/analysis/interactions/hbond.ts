@@ -1,10 +1,16 @@
 /**
  * Hydrogen bond detection (simplified version without RDKit)
  * Uses geometric criteria and element-based donor/acceptor rules
+ * When explicit hydrogens are present, H···A distance and D-H···A angle are checked
  */
 
 import { Atom, BindingSite, HbondInteraction } from '../../types/interaction';
 import { SpatialGrid, findNeighbors, distance } from '../spatialGrid';
+import { residueLabel } from '../pdbParser';
+import { hasHydrogens } from '../hydrogens';
+import { angleAt } from '../geometry';
+import { getNucleotideAtomProperties } from '../nucleotides';
+import { isWater } from '../ligandClasses';
 
 /**
  * Donor/acceptor rules for protein atoms
@@ -35,18 +41,26 @@ const PROTEIN_DONOR_ACCEPTOR_RULES: Record<string, { donor: boolean; acceptor: b
   'ASP:OD2': { donor: false, acceptor: true, sideChain: true },
   'GLU:OE1': { donor: false, acceptor: true, sideChain: true },
   'GLU:OE2': { donor: false, acceptor: true, sideChain: true },
-
-  // Water
-  'HOH:O': { donor: true, acceptor: true, sideChain: false },
-  'WAT:O': { donor: true, acceptor: true, sideChain: false },
 };
 
 /**
- * Get atom properties (donor/acceptor/sideChain) for protein atoms
+ * Get atom properties (donor/acceptor/sideChain) for protein and nucleic acid atoms
  */
 function getProteinAtomProperties(atom: Atom): { donor: boolean; acceptor: boolean; sideChain: boolean } {
   const atomName = atom.atomName.trim().toUpperCase();
 
+  // DNA/RNA templates
+  const nucleotideProps = getNucleotideAtomProperties(atom);
+  if (nucleotideProps) {
+    return nucleotideProps;
+  }
+
+  // Water (any naming, e.g. HOH O or GROMACS SOL OW) only accepts: it never gets hydrogens,
+  // so its donation is left to water bridges
+  if (isWater(atom.resn)) {
+    return { donor: false, acceptor: atom.element.toUpperCase() === 'O', sideChain: false };
+  }
+
   // Check backbone atoms
   if (atomName === 'N') {
     return { donor: true, acceptor: false, sideChain: false };
@@ -73,11 +87,33 @@ function getProteinAtomProperties(atom: Atom): { donor: boolean; acceptor: boole
   return { donor: false, acceptor: false, sideChain: false };
 }
 
+// Nitrogen groups whose lone pair is delocalized and does not accept H-bonds
+const NON_ACCEPTOR_NITROGEN_GROUPS = ['amide', 'nitro', 'sulfonamide'];
+
 /**
- * Get atom properties for ligand atoms (simplified, element-based)
+ * Get atom properties for ligand atoms
+ * Uses perceived chemistry when available, otherwise element-based rules
  */
 function getLigandAtomProperties(atom: Atom): { donor: boolean; acceptor: boolean } {
   const element = atom.element.toUpperCase();
+  const chemistry = atom.chemistry;
+
+  if (chemistry) {
+    const hasH = chemistry.hydrogenCount > 0;
+    if (element === 'O') {
+      return { donor: hasH, acceptor: true };
+    }
+    if (element === 'N') {
+      const delocalized =
+        chemistry.functionalGroups.some(group => NON_ACCEPTOR_NITROGEN_GROUPS.includes(group)) ||
+        (chemistry.hybridization === 'sp2' && hasH);
+      return { donor: hasH, acceptor: !delocalized };
+    }
+    if (element === 'S') {
+      return { donor: false, acceptor: true };
+    }
+    return { donor: false, acceptor: false };
+  }
 
   // Simplified rules: N/O can be donors or acceptors, S can be acceptor
   if (element === 'N' || element === 'O') {
@@ -90,22 +126,51 @@ function getLigandAtomProperties(atom: Atom): { donor: boolean; acceptor: boolea
   return { donor: false, acceptor: false };
 }
 
+/**
+ * Pick the donor hydrogen giving the most linear D-H···A geometry
+ * Returns null when the donor carries no explicit hydrogens
+ */
+function getDonorHydrogenGeometry(donor: Atom, acceptor: Atom): { distanceHA: number; angle: number } | null {
+  if (!hasHydrogens(donor)) return null;
+
+  let best: { distanceHA: number; angle: number } | null = null;
+  for (const hydrogen of donor.hydrogens!) {
+    const angle = angleAt(donor, hydrogen, acceptor);
+    if (!best || angle > best.angle) {
+      best = { distanceHA: distance(hydrogen, acceptor), angle };
+    }
+  }
+  return best;
+}
+
 /**
  * Find hydrogen bonds for a binding site
+ * Without explicit hydrogens every donor/acceptor pair within maxDist is reported;
+ * with hydrogens, donors must carry an H and satisfy the D-H···A angle cutoff
+ * ligandProperties classifies the ligand side (protein rules when the ligand is a peptide or chain)
  */
 export function findHbondInteractions(
   bindingSite: BindingSite,
   proteinGrid: SpatialGrid,
-  maxDist: number
+  maxDist: number,
+  minAngle: number = 100,
+  ligandProperties: (atom: Atom) => { donor: boolean; acceptor: boolean } = getLigandAtomProperties
 ): HbondInteraction[] {
   const interactions: HbondInteraction[] = [];
   const { ligand, pocketAtoms } = bindingSite;
 
+  // Hydrogen-aware checks apply per molecule, only when that molecule has explicit H
+  const ligandHasHydrogens = ligand.atoms.some(hasHydrogens);
+  const proteinHasHydrogens = pocketAtoms.some(hasHydrogens);
+
+  // A receptor atom bonded to the ligand (e.g. Cys SG of an adduct) has given up its hydrogen
+  const linkedProteinAtoms = new Set((ligand.covalentBonds ?? []).map(bond => bond.proteinAtomSerial));
+
   let index = 1;
 
   // For each ligand atom that could be a donor or acceptor
   for (const ligandAtom of ligand.atoms) {
-    const ligandProps = getLigandAtomProperties(ligandAtom);
+    const ligandProps = ligandProperties(ligandAtom);
     if (!ligandProps.donor && !ligandProps.acceptor) continue;
 
     // Find nearby protein atoms
@@ -121,20 +186,33 @@ export function findHbondInteractions(
 
       // Determine if this could be a hydrogen bond
       // Need one donor and one acceptor
-      const proteinIsDonor = proteinProps.donor && ligandProps.acceptor;
-      const ligandIsDonor = ligandProps.donor && proteinProps.acceptor;
+      let proteinIsDonor = proteinProps.donor && !linkedProteinAtoms.has(proteinAtom.serial) && ligandProps.acceptor;
+      let ligandIsDonor = ligandProps.donor && proteinProps.acceptor;
+
+      // Confirm donors against their explicit hydrogens
+      let proteinGeometry: { distanceHA: number; angle: number } | null = null;
+      let ligandGeometry: { distanceHA: number; angle: number } | null = null;
+      if (proteinIsDonor && proteinHasHydrogens) {
+        proteinGeometry = getDonorHydrogenGeometry(proteinAtom, ligandAtom);
+        proteinIsDonor = proteinGeometry !== null && proteinGeometry.angle >= minAngle;
+      }
+      if (ligandIsDonor && ligandHasHydrogens) {
+        ligandGeometry = getDonorHydrogenGeometry(ligandAtom, proteinAtom);
+        ligandIsDonor = ligandGeometry !== null && ligandGeometry.angle >= minAngle;
+      }
 
       if (!proteinIsDonor && !ligandIsDonor) continue;
 
-      // For MVP, we'll record all potential H-bonds
-      // In a full implementation, we'd check angles and confirm hydrogen positions
+      // Geometry stays empty when the donor side has no explicit hydrogens
+      const geometry = proteinIsDonor ? proteinGeometry : ligandGeometry;
+
       interactions.push({
         index: index++,
-        residue: `${proteinAtom.resi} ${proteinAtom.chain}`,
+        residue: residueLabel(proteinAtom),
         aa: proteinAtom.resn,
-        distanceHA: 0,  // Not calculated in MVP (would need H positions)
+        distanceHA: geometry ? Number(geometry.distanceHA.toFixed(3)) : 0,
         distanceDA: Number(dist.toFixed(3)),
-        donorAngle: 0,  // Not calculated in MVP
+        donorAngle: geometry ? Number(geometry.angle.toFixed(1)) : 0,
         proteinDonor: proteinIsDonor,
         sideChain: proteinProps.sideChain,
         donorAtomSerial: proteinIsDonor ? proteinAtom.serial : ligandAtom.serial,
@@ -157,6 +235,6 @@ export function findHbondInteractions(
 }
 
 /**
- * Export helper function for water bridge analysis
+ * Export helper functions for water bridge analysis
  */
-export { getProteinAtomProperties };
+export { getProteinAtomProperties, getLigandAtomProperties, getDonorHydrogenGeometry };
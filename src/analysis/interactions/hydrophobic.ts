@@ -1,11 +1,12 @@
 /**
  * Hydrophobic interaction detection
- * Finds close contacts between ligand atoms and hydrophobic residues
+ * Finds close contacts between ligand atoms and hydrophobic residues or nucleotide carbons
  */
 
 import { Atom, BindingSite, HydrophobicInteraction, Ligand } from '../../types/interaction';
 import { SpatialGrid, findNeighbors, distance } from '../spatialGrid';
-import { HYDROPHOBIC_RESIDUES } from '../pdbParser';
+import { HYDROPHOBIC_RESIDUES, residueKey, residueLabel } from '../pdbParser';
+import { isHydrophobicNucleotideAtom, isNucleotide } from '../nucleotides';
 
 /**
  * Check if a residue is hydrophobic
@@ -14,6 +15,14 @@ function isHydrophobicResidue(resn: string): boolean {
   return HYDROPHOBIC_RESIDUES.has(resn.toUpperCase());
 }
 
+/**
+ * Check if a receptor atom can make hydrophobic contacts
+ * Any atom of a hydrophobic amino acid counts; nucleotides only contribute methyl and deoxyribose carbons
+ */
+export function isHydrophobicAtom(atom: Atom): boolean {
+  return isNucleotide(atom.resn) ? isHydrophobicNucleotideAtom(atom) : isHydrophobicResidue(atom.resn);
+}
+
 /**
  * Find hydrophobic interactions for a binding site
  */
@@ -28,22 +37,22 @@ export function findHydrophobicInteractions(
   // Build a map of pocket atoms by residue for quick lookup
   const pocketAtomsByResidue = new Map<string, Atom[]>();
   for (const atom of pocketAtoms) {
-    const key = `${atom.chain}:${atom.resi}:${atom.resn}`;
+    const key = residueKey(atom);
     if (!pocketAtomsByResidue.has(key)) {
       pocketAtomsByResidue.set(key, []);
     }
     pocketAtomsByResidue.get(key)!.push(atom);
   }
 
-  // Find hydrophobic pocket residues
-  const hydrophobicResidues = pocketResidues.filter(r => isHydrophobicResidue(r.resn));
+  // Find hydrophobic pocket residues (nucleotides are filtered per atom below)
+  const hydrophobicResidues = pocketResidues.filter(r => isHydrophobicResidue(r.resn) || isNucleotide(r.resn));
 
   let index = 1;
 
   // For each hydrophobic residue, find closest ligand atom
   for (const residue of hydrophobicResidues) {
-    const residueKey = `${residue.chain}:${residue.resi}:${residue.resn}`;
-    const residueAtoms = pocketAtomsByResidue.get(residueKey);
+    const key = residueKey(residue);
+    const residueAtoms = pocketAtomsByResidue.get(key);
 
     if (!residueAtoms || residueAtoms.length === 0) continue;
 
@@ -57,10 +66,8 @@ export function findHydrophobicInteractions(
       const neighbors = findNeighbors(proteinGrid, ligandAtom, maxDist);
 
       for (const proteinAtom of neighbors) {
-        // Only consider atoms from this residue
-        if (proteinAtom.chain !== residue.chain ||
-            proteinAtom.resi !== residue.resi ||
-            proteinAtom.resn !== residue.resn) {
+        // Only consider hydrophobic atoms from this residue
+        if (residueKey(proteinAtom) !== key || !isHydrophobicAtom(proteinAtom)) {
           continue;
         }
 
@@ -77,7 +84,7 @@ export function findHydrophobicInteractions(
     if (closestLigandAtom && closestProteinAtom && minDistance <= maxDist) {
       interactions.push({
         index: index++,
-        residue: `${closestProteinAtom.resi} ${closestProteinAtom.chain}`,
+        residue: residueLabel(closestProteinAtom),
         aa: closestProteinAtom.resn,
         distance: Number(minDistance.toFixed(3)),
         ligandAtomSerial: closestLigandAtom.serial,
@@ -116,7 +123,7 @@ export function findHydrophobicInteractionsByAtom(
 
   // Filter pocket atoms to only hydrophobic residues
   const hydrophobicPocketAtoms = pocketAtoms.filter(atom =>
-    isHydrophobicResidue(atom.resn)
+    isHydrophobicAtom(atom)
   );
 
   // For each ligand atom, find close hydrophobic atoms
@@ -125,18 +132,18 @@ export function findHydrophobicInteractionsByAtom(
 
     for (const proteinAtom of neighbors) {
       // Only consider atoms from hydrophobic residues
-      if (!isHydrophobicResidue(proteinAtom.resn)) continue;
+      if (!isHydrophobicAtom(proteinAtom)) continue;
 
       const dist = distance(ligandAtom, proteinAtom);
       if (dist <= maxDist) {
         // Create a unique key for this interaction
-        const key = `${proteinAtom.chain}:${proteinAtom.resi}:${proteinAtom.resn}:${ligandAtom.serial}`;
+        const key = `${residueKey(proteinAtom)}:${ligandAtom.serial}`;
 
         if (!seen.has(key)) {
           seen.add(key);
           interactions.push({
             index: index++,
-            residue: `${proteinAtom.resi} ${proteinAtom.chain}`,
+            residue: residueLabel(proteinAtom),
             aa: proteinAtom.resn,
             distance: Number(dist.toFixed(3)),
             ligandAtomSerial: ligandAtom.serial,
@@ -0,0 +1,134 @@
+/**
+ * Metal coordination complex detection
+ * Collects the coordination sphere of metal ions bound by (or part of) the ligand and fits an ideal geometry
+ */
+
+import { Atom, BindingSite, MetalComplexInteraction, MetalCoordinatingAtom } from '../../types/interaction';
+import { SpatialGrid, findNeighbors, distance } from '../spatialGrid';
+import { METAL_ELEMENTS, residueLabel } from '../pdbParser';
+import { Vec3, subtract, vectorAngle } from '../geometry';
+
+// Maximum metal-coordinator distance (Å)
+const METAL_DIST_MAX = 3.0;
+
+// Elements that can donate a lone pair to a metal
+const COORDINATING_ELEMENTS = new Set(['O', 'N', 'S']);
+
+/**
+ * Ideal coordination geometries as unit-direction vectors around the metal
+ */
+const SQRT3_2 = Math.sqrt(3) / 2;
+const IDEAL_GEOMETRIES: Record<string, [number, number, number][]> = {
+  'linear': [[1, 0, 0], [-1, 0, 0]],
+  'trigonal planar': [[1, 0, 0], [-0.5, SQRT3_2, 0], [-0.5, -SQRT3_2, 0]],
+  'trigonal pyramidal': [[1, 1, 1], [1, -1, -1], [-1, 1, -1]],
+  'T-shaped': [[1, 0, 0], [-1, 0, 0], [0, 1, 0]],
+  'tetrahedral': [[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]],
+  'square planar': [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0]],
+  'trigonal bipyramidal': [[0, 0, 1], [0, 0, -1], [1, 0, 0], [-0.5, SQRT3_2, 0], [-0.5, -SQRT3_2, 0]],
+  'square pyramidal': [[0, 0, 1], [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0]],
+  'octahedral': [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]],
+};
+
+/**
+ * All pairwise angles between direction vectors, sorted ascending
+ */
+function sortedPairAngles(vectors: Vec3[]): number[] {
+  const angles: number[] = [];
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      angles.push(vectorAngle(vectors[i], vectors[j]));
+    }
+  }
+  return angles.sort((a, b) => a - b);
+}
+
+/**
+ * Fit the coordination sphere to the ideal geometries with the same coordination number
+ * Compares sorted pairwise angle lists, which is independent of atom ordering
+ */
+export function classifyCoordinationGeometry(metal: Vec3, coordinators: Vec3[]): { geometry: string; rms: number } {
+  const n = coordinators.length;
+  if (n < 2) return { geometry: 'NA', rms: 0 };
+
+  const observed = sortedPairAngles(coordinators.map(atom => subtract(atom, metal)));
+
+  let best = { geometry: 'irregular', rms: Infinity };
+  for (const [geometry, directions] of Object.entries(IDEAL_GEOMETRIES)) {
+    if (directions.length !== n) continue;
+
+    const ideal = sortedPairAngles(directions.map(([x, y, z]) => ({ x, y, z })));
+    const sumSq = ideal.reduce((sum, angle, i) => sum + (angle - observed[i]) ** 2, 0);
+    const rms = Math.sqrt(sumSq / ideal.length);
+    if (rms < best.rms) {
+      best = { geometry, rms };
+    }
+  }
+
+  return best.rms === Infinity ? { geometry: 'irregular', rms: 0 } : best;
+}
+
+/**
+ * Find metal complexes for a binding site
+ * Only metals with at least one coordinating ligand atom, or belonging to the ligand, are reported
+ */
+export function findMetalComplexes(
+  bindingSite: BindingSite,
+  proteinGrid: SpatialGrid
+): MetalComplexInteraction[] {
+  const interactions: MetalComplexInteraction[] = [];
+  const { ligand, pocketAtoms } = bindingSite;
+
+  // Metals of the ligand itself (an ion site, a heme iron) are reported with their whole sphere
+  const ligandMetals = ligand.atoms.filter(atom => METAL_ELEMENTS.has(atom.element));
+  const metals = [...ligandMetals, ...pocketAtoms.filter(atom => atom.hetflag && METAL_ELEMENTS.has(atom.element))];
+
+  let index = 1;
+
+  for (const metal of metals) {
+    const ligandCoordinators = ligand.atoms.filter(
+      atom => atom !== metal && COORDINATING_ELEMENTS.has(atom.element) && distance(atom, metal) <= METAL_DIST_MAX
+    );
+    if (ligandCoordinators.length === 0 && !ligandMetals.includes(metal)) continue;
+
+    const proteinCoordinators = findNeighbors(proteinGrid, metal, METAL_DIST_MAX, metal.serial).filter(
+      atom => COORDINATING_ELEMENTS.has(atom.element)
+    );
+    if (proteinCoordinators.length + ligandCoordinators.length === 0) continue;
+
+    const toCoordinatingAtom = (atom: Atom, isLigand: boolean): MetalCoordinatingAtom => ({
+      serial: atom.serial,
+      atomName: atom.atomName,
+      resn: atom.resn,
+      resi: atom.resi,
+      iCode: atom.iCode,
+      chain: atom.chain,
+      isLigand,
+      distance: Number(distance(atom, metal).toFixed(3)),
+    });
+
+    const coordinatingAtoms = [
+      ...proteinCoordinators.map(atom => toCoordinatingAtom(atom, false)),
+      ...ligandCoordinators.map(atom => toCoordinatingAtom(atom, true)),
+    ].sort((a, b) => a.distance - b.distance);
+
+    const { geometry, rms } = classifyCoordinationGeometry(metal, [...proteinCoordinators, ...ligandCoordinators]);
+
+    interactions.push({
+      index: index++,
+      residue: residueLabel(metal),
+      metal: metal.resn,
+      metalAtomSerial: metal.serial,
+      coordinationNumber: coordinatingAtoms.length,
+      geometry,
+      rms: Number(rms.toFixed(2)),
+      ligandCoordinators: ligandCoordinators.length,
+      coordination: coordinatingAtoms
+        .map(a => `${a.resn}${a.resi}${a.iCode}${a.chain}:${a.atomName} ${a.distance.toFixed(2)}`)
+        .join(', '),
+      coordinatingAtoms,
+    });
+  }
+
+  return interactions;
+}
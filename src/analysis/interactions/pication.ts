@@ -0,0 +1,132 @@
+/**
+ * Pi-cation detection
+ * Pairs aromatic ring centroids with cationic centers on the opposite molecule
+ */
+
+import { Atom, BindingSite, PicationInteraction } from '../../types/interaction';
+import { METAL_ELEMENTS, residueLabel } from '../pdbParser';
+import { Ring, getLigandRings, getProteinRings } from '../rings';
+import { ChargedGroup, getLigandChargedGroups, getProteinChargedGroups } from './saltbridge';
+import { dot, pointDistance, subtract, vectorAngle } from '../geometry';
+import { isCovalentlyLinked } from '../covalent';
+
+// Maximum angle (degrees) between the ring normal and the centroid-cation vector
+const PICATION_ANGLE_MAX = 30;
+
+// Protein residues whose charged group can donate the cation (HIS is itself aromatic)
+const PROTEIN_CATION_RESIDUES = new Set(['LYS', 'ARG']);
+
+/**
+ * Metal ions in the pocket act as point cations
+ */
+function getMetalCations(atoms: Atom[]): ChargedGroup[] {
+  return atoms
+    .filter(atom => atom.hetflag && METAL_ELEMENTS.has(atom.element))
+    .map(atom => ({ atoms: [atom], center: atom, positive: true, label: atom.resn }));
+}
+
+/**
+ * Measure ring-cation geometry; returns null if the cation is not above the ring face
+ */
+function measurePication(
+  ring: Ring,
+  cation: ChargedGroup,
+  maxDist: number
+): { distance: number; angle: number; offset: number } | null {
+  const dist = pointDistance(ring.center, cation.center);
+  if (dist > maxDist) return null;
+
+  const v = subtract(cation.center, ring.center);
+  const rawAngle = vectorAngle(ring.normal, v);
+  const angle = rawAngle > 90 ? 180 - rawAngle : rawAngle;
+  if (angle > PICATION_ANGLE_MAX) return null;
+
+  const along = dot(v, ring.normal);
+  const offset = Math.sqrt(Math.max(0, dot(v, v) - along * along));
+
+  return { distance: dist, angle, offset };
+}
+
+/**
+ * Find pi-cation interactions for a binding site
+ * Rings and cations joined through a covalent bond (covalentExclusions) are skipped
+ */
+export function findPicationInteractions(
+  bindingSite: BindingSite,
+  maxDist: number,
+  excluded: Set<string> = new Set()
+): PicationInteraction[] {
+  const interactions: PicationInteraction[] = [];
+  const { ligand, pocketAtoms } = bindingSite;
+
+  let index = 1;
+
+  // Ligand ring with protein cation (LYS/ARG or metal ion)
+  const ligandRings = getLigandRings(ligand.atoms).filter(ring => ring.aromatic);
+  if (ligandRings.length > 0) {
+    const proteinCations = [
+      ...getProteinChargedGroups(pocketAtoms).filter(
+        group => group.positive && PROTEIN_CATION_RESIDUES.has(group.atoms[0].resn.toUpperCase())
+      ),
+      ...getMetalCations(pocketAtoms),
+    ];
+
+    for (const ring of ligandRings) {
+      for (const cation of proteinCations) {
+        const geometry = measurePication(ring, cation, maxDist);
+        if (!geometry || isCovalentlyLinked(excluded, ring.atoms, cation.atoms)) continue;
+
+        const proteinAtom = cation.atoms[0];
+        interactions.push({
+          index: index++,
+          residue: residueLabel(proteinAtom),
+          aa: proteinAtom.resn,
+          distance: Number(geometry.distance.toFixed(3)),
+          angle: Number(geometry.angle.toFixed(1)),
+          offset: Number(geometry.offset.toFixed(3)),
+          proteinCharged: true,
+          cationGroup: cation.label,
+          ligandAtomSerial: ring.atoms[0].serial,
+          proteinAtomSerial: proteinAtom.serial,
+        });
+      }
+    }
+  }
+
+  // Protein ring with ligand cation
+  const ligandCations = getLigandChargedGroups(ligand.atoms).filter(group => group.positive);
+  if (ligandCations.length > 0) {
+    const proteinRings = getProteinRings(pocketAtoms);
+
+    for (const ring of proteinRings) {
+      for (const cation of ligandCations) {
+        const geometry = measurePication(ring, cation, maxDist);
+        if (!geometry || isCovalentlyLinked(excluded, cation.atoms, ring.atoms)) continue;
+
+        const proteinAtom = ring.atoms[0];
+        interactions.push({
+          index: index++,
+          residue: residueLabel(proteinAtom),
+          aa: proteinAtom.resn,
+          distance: Number(geometry.distance.toFixed(3)),
+          angle: Number(geometry.angle.toFixed(1)),
+          offset: Number(geometry.offset.toFixed(3)),
+          proteinCharged: false,
+          cationGroup: cation.label,
+          ligandAtomSerial: cation.atoms[0].serial,
+          proteinAtomSerial: proteinAtom.serial,
+        });
+      }
+    }
+  }
+
+  // Sort by distance
+  interactions.sort((a, b) => a.distance - b.distance);
+
+  // Update indices after sorting
+  interactions.forEach((interaction, i) => {
+    interaction.index = i + 1;
+  });
+
+  return interactions;
+}
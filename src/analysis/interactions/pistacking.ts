@@ -0,0 +1,95 @@
+/**
+ * Pi-stacking detection
+ * Compares aromatic ring centroids, plane normals and lateral offsets
+ */
+
+import { Atom, BindingSite, PistackingInteraction } from '../../types/interaction';
+import { residueLabel } from '../pdbParser';
+import { Ring, getLigandRings, getProteinRings } from '../rings';
+import { Vec3, dot, pointDistance, subtract, vectorAngle } from '../geometry';
+
+// Maximum deviation (degrees) from the ideal parallel (0°) or T-shaped (90°) angle
+const PISTACK_ANGLE_DEV = 30;
+
+// Maximum lateral offset (Å) between ring centroids
+const PISTACK_OFFSET_MAX = 2.0;
+
+/**
+ * Distance of a point from the axis through center along normal
+ */
+function projectedOffset(point: Vec3, center: Vec3, normal: Vec3): number {
+  const v = subtract(point, center);
+  const along = dot(v, normal);
+  return Math.sqrt(Math.max(0, dot(v, v) - along * along));
+}
+
+/**
+ * Find pi-stacking interactions for a binding site
+ * Nucleotide bases in the pocket take part like aromatic side chains (intercalation, base stacking)
+ * ligandRingsOf builds the ligand side (residue templates when the ligand is a peptide or chain)
+ */
+export function findPistackingInteractions(
+  bindingSite: BindingSite,
+  maxDist: number,
+  ligandRingsOf: (atoms: Atom[]) => Ring[] = getLigandRings
+): PistackingInteraction[] {
+  const interactions: PistackingInteraction[] = [];
+  const { ligand, pocketAtoms } = bindingSite;
+
+  const ligandRings = ligandRingsOf(ligand.atoms).filter(ring => ring.aromatic);
+  if (ligandRings.length === 0) return interactions;
+
+  const proteinRings = getProteinRings(pocketAtoms);
+
+  let index = 1;
+
+  for (const ligandRing of ligandRings) {
+    for (const proteinRing of proteinRings) {
+      const dist = pointDistance(ligandRing.center, proteinRing.center);
+      if (dist > maxDist) continue;
+
+      // Normals have no orientation, so fold the angle into 0-90
+      const rawAngle = vectorAngle(ligandRing.normal, proteinRing.normal);
+      const angle = rawAngle > 90 ? 180 - rawAngle : rawAngle;
+
+      let type: PistackingInteraction['type'];
+      if (angle < PISTACK_ANGLE_DEV) {
+        type = 'parallel';
+      } else if (angle > 90 - PISTACK_ANGLE_DEV) {
+        type = 'perpendicular';
+      } else {
+        continue;
+      }
+
+      // Use the smaller of the two offsets, as either ring may sit over the other
+      const offset = Math.min(
+        projectedOffset(ligandRing.center, proteinRing.center, proteinRing.normal),
+        projectedOffset(proteinRing.center, ligandRing.center, ligandRing.normal)
+      );
+      if (offset > PISTACK_OFFSET_MAX) continue;
+
+      const proteinAtom = proteinRing.atoms[0];
+      interactions.push({
+        index: index++,
+        residue: residueLabel(proteinAtom),
+        aa: proteinAtom.resn,
+        distance: Number(dist.toFixed(3)),
+        angle: Number(angle.toFixed(1)),
+        offset: Number(offset.toFixed(3)),
+        type,
+        ligandRingSerial: ligandRing.atoms[0].serial,
+        proteinRingSerial: proteinAtom.serial,
+      });
+    }
+  }
+
+  // Sort by distance
+  interactions.sort((a, b) => a.distance - b.distance);
+
+  // Update indices after sorting
+  interactions.forEach((interaction, i) => {
+    interaction.index = i + 1;
+  });
+
+  return interactions;
+}
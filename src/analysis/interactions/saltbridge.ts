@@ -0,0 +1,217 @@
+/**
+ * Salt bridge detection
+ * Pairs oppositely charged protein and ligand groups by centroid distance
+ */
+
+import { Atom, BindingSite, SaltbridgeInteraction } from '../../types/interaction';
+import { distance } from '../spatialGrid';
+import { residueKey, residueLabel } from '../pdbParser';
+import { inferBonds } from '../bondPerception';
+import { Vec3, centroid, pointDistance, angleAt } from '../geometry';
+import { PHOSPHATE_OXYGENS, isNucleotide } from '../nucleotides';
+import { isCovalentlyLinked } from '../covalent';
+
+// Closer than this the groups overlap, which indicates a modelling error
+const MIN_SALTBRIDGE_DIST = 0.5;
+
+/**
+ * A charged functional group represented by its centroid
+ */
+export interface ChargedGroup {
+  atoms: Atom[];
+  center: Vec3;
+  positive: boolean;
+  label: string;
+}
+
+/**
+ * Charged side chain definitions
+ * Format: resn -> {atoms, positive, label}
+ */
+const PROTEIN_CHARGED_GROUPS: Record<string, { atoms: string[]; positive: boolean; label: string }> = {
+  ARG: { atoms: ['NE', 'CZ', 'NH1', 'NH2'], positive: true, label: 'Guanidinium' },
+  LYS: { atoms: ['NZ'], positive: true, label: 'Ammonium' },
+  HIS: { atoms: ['CG', 'ND1', 'CD2', 'CE1', 'NE2'], positive: true, label: 'Imidazolium' },
+  ASP: { atoms: ['OD1', 'OD2'], positive: false, label: 'Carboxylate' },
+  GLU: { atoms: ['OE1', 'OE2'], positive: false, label: 'Carboxylate' },
+};
+
+// Backbone phosphate of DNA/RNA nucleotides
+const NUCLEOTIDE_PHOSPHATE_GROUP = { atoms: PHOSPHATE_OXYGENS, positive: false, label: 'Phosphate' };
+
+/**
+ * Charged group definition for a residue, if any
+ */
+function chargedGroupDefinition(resn: string): { atoms: string[]; positive: boolean; label: string } | undefined {
+  return PROTEIN_CHARGED_GROUPS[resn.toUpperCase()] ?? (isNucleotide(resn) ? NUCLEOTIDE_PHOSPHATE_GROUP : undefined);
+}
+
+/**
+ * Build charged groups from protein and nucleic acid atoms
+ * Atoms are grouped per residue; a group is kept if any of its atoms are present
+ */
+export function getProteinChargedGroups(atoms: Atom[]): ChargedGroup[] {
+  const byResidue = new Map<string, Atom[]>();
+
+  for (const atom of atoms) {
+    const definition = chargedGroupDefinition(atom.resn);
+    if (!definition || !definition.atoms.includes(atom.atomName.toUpperCase())) continue;
+
+    const key = residueKey(atom);
+    if (!byResidue.has(key)) {
+      byResidue.set(key, []);
+    }
+    byResidue.get(key)!.push(atom);
+  }
+
+  const groups: ChargedGroup[] = [];
+  for (const groupAtoms of byResidue.values()) {
+    const definition = chargedGroupDefinition(groupAtoms[0].resn)!;
+    groups.push({
+      atoms: groupAtoms,
+      center: centroid(groupAtoms),
+      positive: definition.positive,
+      label: definition.label,
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * Check whether a trivalent atom is pyramidal (sp3) rather than planar
+ */
+function isPyramidal(atom: Atom, neighbors: Atom[]): boolean {
+  if (neighbors.length < 3) return true;
+  const angleSum =
+    angleAt(neighbors[0], atom, neighbors[1]) +
+    angleAt(neighbors[1], atom, neighbors[2]) +
+    angleAt(neighbors[0], atom, neighbors[2]);
+  return angleSum < 350;
+}
+
+/**
+ * Identify charged groups in a ligand from its inferred connectivity
+ * Uses bond lengths to tell protonatable amines apart from amides, anilines and aromatic N
+ */
+export function getLigandChargedGroups(ligandAtoms: Atom[]): ChargedGroup[] {
+  const groups: ChargedGroup[] = [];
+  const bonds = inferBonds(ligandAtoms);
+  const neighborsOf = (atom: Atom) => bonds.get(atom.serial) ?? [];
+  const isTerminal = (atom: Atom) => neighborsOf(atom).length === 1;
+  const usedNitrogens = new Set<number>();
+
+  // Guanidinium and amidinium: carbon bonded to two or three nitrogens, one of them terminal
+  for (const atom of ligandAtoms) {
+    if (atom.element !== 'C') continue;
+    const neighbors = neighborsOf(atom);
+    const nitrogens = neighbors.filter(n => n.element === 'N');
+    if (neighbors.length !== 3 || nitrogens.length < 2) continue;
+    // Ureas and thioureas are neutral
+    if (neighbors.some(n => n.element === 'O' || n.element === 'S')) continue;
+    if (!nitrogens.some(isTerminal) || nitrogens.some(n => neighborsOf(n).length > 2)) continue;
+
+    const groupAtoms = [atom, ...nitrogens];
+    nitrogens.forEach(n => usedNitrogens.add(n.serial));
+    groups.push({
+      atoms: groupAtoms,
+      center: centroid(groupAtoms),
+      positive: true,
+      label: nitrogens.length === 3 ? 'Guanidinium' : 'Amidinium',
+    });
+  }
+
+  for (const atom of ligandAtoms) {
+    const neighbors = neighborsOf(atom);
+
+    if (atom.element === 'N' && !usedNitrogens.has(atom.serial)) {
+      if (neighbors.length === 4) {
+        groups.push({ atoms: [atom], center: atom, positive: true, label: 'Quaternary ammonium' });
+        continue;
+      }
+
+      // Aliphatic amine: only carbon neighbors, long single C-N bonds, pyramidal nitrogen
+      const isAmine =
+        neighbors.length > 0 &&
+        neighbors.every(n => n.element === 'C' && distance(atom, n) >= 1.42) &&
+        isPyramidal(atom, neighbors);
+      if (isAmine) {
+        groups.push({ atoms: [atom], center: atom, positive: true, label: 'Amine' });
+      }
+    } else if (atom.element === 'S') {
+      const oxygens = neighbors.filter(n => n.element === 'O' && isTerminal(n));
+      if (oxygens.length >= 3) {
+        groups.push({ atoms: oxygens, center: centroid(oxygens), positive: false, label: 'Sulfonate' });
+      } else if (neighbors.length === 3 && neighbors.every(n => n.element === 'C')) {
+        groups.push({ atoms: [atom], center: atom, positive: true, label: 'Sulfonium' });
+      }
+    } else if (atom.element === 'P') {
+      const oxygens = neighbors.filter(n => n.element === 'O' && isTerminal(n));
+      if (oxygens.length >= 2) {
+        groups.push({ atoms: oxygens, center: centroid(oxygens), positive: false, label: 'Phosphate' });
+      }
+    } else if (atom.element === 'C') {
+      const oxygens = neighbors.filter(n => n.element === 'O' && isTerminal(n));
+      if (neighbors.length === 3 && oxygens.length === 2) {
+        groups.push({ atoms: oxygens, center: centroid(oxygens), positive: false, label: 'Carboxylate' });
+      }
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Find salt bridges for a binding site
+ * ligandChargedGroups builds the ligand side (residue templates when the ligand is a peptide or chain);
+ * groups joined through a covalent bond (covalentExclusions) are skipped
+ */
+export function findSaltbridgeInteractions(
+  bindingSite: BindingSite,
+  maxDist: number,
+  ligandChargedGroups: (atoms: Atom[]) => ChargedGroup[] = getLigandChargedGroups,
+  excluded: Set<string> = new Set()
+): SaltbridgeInteraction[] {
+  const interactions: SaltbridgeInteraction[] = [];
+  const { ligand, pocketAtoms } = bindingSite;
+
+  const ligandGroups = ligandChargedGroups(ligand.atoms);
+  if (ligandGroups.length === 0) return interactions;
+
+  const proteinGroups = getProteinChargedGroups(pocketAtoms);
+
+  let index = 1;
+
+  for (const ligandGroup of ligandGroups) {
+    for (const proteinGroup of proteinGroups) {
+      // Need opposite charges
+      if (ligandGroup.positive === proteinGroup.positive) continue;
+
+      const dist = pointDistance(ligandGroup.center, proteinGroup.center);
+      if (dist < MIN_SALTBRIDGE_DIST || dist > maxDist) continue;
+      if (isCovalentlyLinked(excluded, ligandGroup.atoms, proteinGroup.atoms)) continue;
+
+      const proteinAtom = proteinGroup.atoms[0];
+      interactions.push({
+        index: index++,
+        residue: residueLabel(proteinAtom),
+        aa: proteinAtom.resn,
+        distance: Number(dist.toFixed(3)),
+        proteinPositive: proteinGroup.positive,
+        ligandGroup: ligandGroup.label,
+        ligandAtomSerial: ligandGroup.atoms[0].serial,
+        proteinAtomSerial: proteinAtom.serial,
+      });
+    }
+  }
+
+  // Sort by distance
+  interactions.sort((a, b) => a.distance - b.distance);
+
+  // Update indices after sorting
+  interactions.forEach((interaction, i) => {
+    interaction.index = i + 1;
+  });
+
+  return interactions;
+}
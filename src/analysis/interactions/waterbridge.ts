@@ -1,91 +1,139 @@
 /**
- * Water bridge detection (simplified version)
- * Finds water-mediated interactions between protein and ligand
+ * Water bridge detection
+ * Finds water-mediated hydrogen bonds between protein and ligand using PLIP criteria
  */
 
-import { Atom, BindingSite, WaterbridgeInteraction } from '../../types/interaction';
+import { Atom, BindingSite, HbondInteraction, WaterbridgeInteraction } from '../../types/interaction';
 import { SpatialGrid, findNeighbors, distance } from '../spatialGrid';
-import { getProteinAtomProperties } from './hbond';
+import { residueLabel } from '../pdbParser';
+import { hasHydrogens } from '../hydrogens';
+import { angleAt } from '../geometry';
+import { getProteinAtomProperties, getLigandAtomProperties, getDonorHydrogenGeometry } from './hbond';
+import { isWater } from '../ligandClasses';
+
+// Minimum distance (Å) between water oxygen and either partner
+const WATER_BRIDGE_MIN_DIST = 2.5;
+
+// Allowed acceptor-water-donor angle (omega) window in degrees
+const WATER_BRIDGE_OMEGA_MIN = 71;
+const WATER_BRIDGE_OMEGA_MAX = 140;
+
+// Omega closest to this value wins when a water has competing bridges
+const WATER_BRIDGE_OMEGA_IDEAL = 110;
+
+// Minimum D-H···O(water) angle when the donor carries explicit hydrogens
+const WATER_BRIDGE_THETA_MIN = 100;
+
+// A water donates two hydrogens, so it takes part in at most two bridges
+const MAX_BRIDGES_PER_WATER = 2;
+
+/**
+ * Check whether an atom is a water oxygen
+ */
+function isWaterOxygen(atom: Atom): boolean {
+  return isWater(atom.resn) && atom.element.toUpperCase() === 'O';
+}
 
 /**
  * Find water bridge interactions for a binding site
+ * Donors that already form a direct hydrogen bond (from `hbonds`) are not used for bridges
  */
 export function findWaterbridgeInteractions(
   bindingSite: BindingSite,
   proteinGrid: SpatialGrid,
   waterGrid: SpatialGrid,
-  maxDist: number
+  maxDist: number,
+  hbonds: HbondInteraction[] = []
 ): WaterbridgeInteraction[] {
-  const interactions: WaterbridgeInteraction[] = [];
+  const candidates: WaterbridgeInteraction[] = [];
   const { ligand, pocketAtoms } = bindingSite;
 
-  let index = 1;
+  const ligandHasHydrogens = ligand.atoms.some(hasHydrogens);
+  const proteinHasHydrogens = pocketAtoms.some(hasHydrogens);
+  const hbondDonors = new Set(hbonds.map(hbond => hbond.donorAtomSerial));
 
-  // Find all water oxygen atoms (HOH/WAT/DOD residue with O atom)
-  const waterAtoms = waterGrid.grid.values().flatMap(cell =>
-    cell.atoms.filter(atom => {
-      const resn = atom.resn.toUpperCase();
-      return (resn === 'HOH' || resn === 'WAT' || resn === 'DOD') &&
-             atom.element.toUpperCase() === 'O';
-    })
-  );
+  const inWindow = (dist: number) => dist >= WATER_BRIDGE_MIN_DIST && dist <= maxDist;
 
-  // For each ligand atom that could be a donor or acceptor
   for (const ligandAtom of ligand.atoms) {
-    const element = ligandAtom.element.toUpperCase();
-    if (element !== 'N' && element !== 'O' && element !== 'S') continue;
+    const ligandProps = getLigandAtomProperties(ligandAtom);
+    if (!ligandProps.donor && !ligandProps.acceptor) continue;
 
-    // Find nearby water molecules
-    for (const waterAtom of waterAtoms) {
-      const ligandWaterDist = distance(ligandAtom, waterAtom);
-      if (ligandWaterDist > maxDist) continue;
+    for (const water of findNeighbors(waterGrid, ligandAtom, maxDist)) {
+      if (!isWaterOxygen(water)) continue;
 
-      // Find protein atoms that could interact with this water
-      const proteinNeighbors = findNeighbors(proteinGrid, waterAtom, maxDist);
+      const ligandWaterDist = distance(ligandAtom, water);
+      if (!inWindow(ligandWaterDist)) continue;
+
+      for (const proteinAtom of findNeighbors(proteinGrid, water, maxDist)) {
+        if (isWater(proteinAtom.resn)) continue;
 
-      for (const proteinAtom of proteinNeighbors) {
         const proteinProps = getProteinAtomProperties(proteinAtom);
         if (!proteinProps.donor && !proteinProps.acceptor) continue;
 
-        const proteinWaterDist = distance(proteinAtom, waterAtom);
-        if (proteinWaterDist > maxDist) continue;
-
-        // Determine if this is a valid water bridge
-        // We need: protein - water - ligand with donor/acceptor pattern
-        // For MVP, we'll be permissive and check if both distances are within cutoff
-
-        const proteinIsDonor = proteinProps.donor;
-
-        // Check if ligand atom could be acceptor or donor
-        const ligandIsAcceptor = element === 'O' || element === 'N' || element === 'S';
-        const ligandIsDonor = element === 'N' || element === 'O';
-
-        // Valid bridge: protein donor - water - ligand acceptor OR ligand donor - water - protein acceptor
-        const isValidBridge = (proteinIsDonor && ligandIsAcceptor) ||
-                              (!proteinIsDonor && proteinProps.acceptor && ligandIsDonor);
-
-        if (!isValidBridge) continue;
-
-        interactions.push({
-          index: index++,
-          residue: `${proteinAtom.resi} ${proteinAtom.chain}`,
-          aa: proteinAtom.resn,
-          distanceAW: Number(ligandWaterDist.toFixed(3)),
-          distanceDW: Number(proteinWaterDist.toFixed(3)),
-          donorAngle: 0,  // Not calculated in MVP
-          waterAngle: 0,  // Not calculated in MVP
-          proteinDonor: proteinIsDonor,
-          donorAtomSerial: proteinIsDonor ? proteinAtom.serial : ligandAtom.serial,
-          acceptorAtomSerial: proteinIsDonor ? ligandAtom.serial : proteinAtom.serial,
-          waterAtomSerial: waterAtom.serial,
-          donorAtomName: proteinIsDonor ? proteinAtom.atomName : ligandAtom.atomName,
-          acceptorAtomName: proteinIsDonor ? ligandAtom.atomName : proteinAtom.atomName,
-          waterAtomName: waterAtom.atomName,
-        });
+        const proteinWaterDist = distance(proteinAtom, water);
+        if (!inWindow(proteinWaterDist)) continue;
+
+        // Try both directions: protein donor -> water -> ligand acceptor, and the reverse
+        for (const proteinDonor of [true, false]) {
+          const valid = proteinDonor
+            ? proteinProps.donor && ligandProps.acceptor
+            : ligandProps.donor && proteinProps.acceptor;
+          if (!valid) continue;
+
+          const donor = proteinDonor ? proteinAtom : ligandAtom;
+          const acceptor = proteinDonor ? ligandAtom : proteinAtom;
+          if (hbondDonors.has(donor.serial)) continue;
+
+          const waterAngle = angleAt(acceptor, water, donor);
+          if (waterAngle < WATER_BRIDGE_OMEGA_MIN || waterAngle > WATER_BRIDGE_OMEGA_MAX) continue;
+
+          // Donor angle is only checked when the donor's molecule has explicit hydrogens
+          let donorAngle = 0;
+          if (proteinDonor ? proteinHasHydrogens : ligandHasHydrogens) {
+            const geometry = getDonorHydrogenGeometry(donor, water);
+            if (!geometry || geometry.angle < WATER_BRIDGE_THETA_MIN) continue;
+            donorAngle = geometry.angle;
+          }
+
+          candidates.push({
+            index: 0,
+            residue: residueLabel(proteinAtom),
+            aa: proteinAtom.resn,
+            waterResidue: residueLabel(water),
+            distanceAW: Number((proteinDonor ? ligandWaterDist : proteinWaterDist).toFixed(3)),
+            distanceDW: Number((proteinDonor ? proteinWaterDist : ligandWaterDist).toFixed(3)),
+            donorAngle: Number(donorAngle.toFixed(1)),
+            waterAngle: Number(waterAngle.toFixed(1)),
+            proteinDonor,
+            donorAtomSerial: donor.serial,
+            acceptorAtomSerial: acceptor.serial,
+            waterAtomSerial: water.serial,
+            donorAtomName: donor.atomName,
+            acceptorAtomName: acceptor.atomName,
+            waterAtomName: water.atomName,
+          });
+        }
       }
     }
   }
 
+  // Keep the best bridges per water (omega closest to ideal)
+  const byWater = new Map<number, WaterbridgeInteraction[]>();
+  for (const bridge of candidates) {
+    if (!byWater.has(bridge.waterAtomSerial)) {
+      byWater.set(bridge.waterAtomSerial, []);
+    }
+    byWater.get(bridge.waterAtomSerial)!.push(bridge);
+  }
+
+  const interactions: WaterbridgeInteraction[] = [];
+  for (const bridges of byWater.values()) {
+    bridges.sort((a, b) =>
+      Math.abs(a.waterAngle - WATER_BRIDGE_OMEGA_IDEAL) - Math.abs(b.waterAngle - WATER_BRIDGE_OMEGA_IDEAL)
+    );
+    interactions.push(...bridges.slice(0, MAX_BRIDGES_PER_WATER));
+  }
+
   // Sort by combined distance
   interactions.sort((a, b) => {
     const distA = a.distanceAW + a.distanceDW;
@@ -100,17 +148,3 @@ export function findWaterbridgeInteractions(
 
   return interactions;
 }
-
-/**
- * Create a simplified version that returns empty results for MVP
- */
-export function findWaterbridgeInteractionsSimple(
-  bindingSite: BindingSite,
-  proteinGrid: SpatialGrid,
-  waterGrid: SpatialGrid,
-  maxDist: number
-): WaterbridgeInteraction[] {
-  // For MVP, return empty array to avoid computational complexity
-  // Full implementation requires finding water atoms and checking geometric constraints
-  return [];
-}
@@ -0,0 +1,360 @@
+/**
+ * Protein–protein, protein–peptide and protein–DNA/RNA interface analysis
+ * Compares two groups of chains (receptor and partner) in the first model: interface residues,
+ * hydrophobic contacts, H-bonds, salt bridges and stacking (the partner takes the ligand role
+ * in the detectors), buried surface area and a per-residue contact summary
+ */
+
+import {
+  AnalysisParams,
+  Atom,
+  BindingSite,
+  ChainGroups,
+  HbondInteraction,
+  HydrophobicInteraction,
+  InterfaceResidue,
+  InterfaceResult,
+  Ligand,
+  PolymerType,
+  StructureChain,
+  StructureFormat,
+} from '../types/interaction';
+import { ProgressCallback, parseModels } from './analyze';
+import { HYDROPHOBIC_RESIDUES, findReceptorContextAtoms, residueKey, residueLabel } from './pdbParser';
+import { SpatialGrid, buildSpatialGrid, findNeighbors } from './spatialGrid';
+import { parseResidueKey } from './bindingSite';
+import { addHydrogens, assignHydrogens } from './hydrogens';
+import { findHydrophobicInteractionsByAtom } from './interactions/hydrophobic';
+import { findHbondInteractions, getProteinAtomProperties } from './interactions/hbond';
+import { findSaltbridgeInteractions, getProteinChargedGroups } from './interactions/saltbridge';
+import { findPistackingInteractions } from './interactions/pistacking';
+import { getProteinRings } from './rings';
+import { getNucleotideTemplate, isHydrophobicNucleotideAtom } from './nucleotides';
+import { VDW_RADII } from './validation';
+import { isWater } from './ligandClasses';
+
+// Heavy atoms of two residues within this distance (Å) put both residues in the interface
+const INTERFACE_CONTACT_DISTANCE = 5.0;
+
+// Solvent probe radius (Å) and sphere points per atom for the Shrake–Rupley surface
+const PROBE_RADIUS = 1.4;
+const SPHERE_POINTS = 100;
+
+/**
+ * Evenly spread unit vectors (golden-section spiral)
+ */
+function spherePoints(count: number): [number, number, number][] {
+  const points: [number, number, number][] = [];
+  const increment = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i++) {
+    const y = 1 - ((i + 0.5) / count) * 2;
+    const r = Math.sqrt(1 - y * y);
+    const phi = i * increment;
+    points.push([Math.cos(phi) * r, y, Math.sin(phi) * r]);
+  }
+  return points;
+}
+
+const vdwRadius = (atom: Atom) => VDW_RADII[atom.element] ?? 1.70;
+
+/**
+ * Polymer type of a residue: amino acids have a CA, nucleotides come from the templates
+ */
+function residuePolymerType(atom: Atom): PolymerType {
+  const nucleotide = getNucleotideTemplate(atom.resn);
+  if (nucleotide) return nucleotide.dna ? 'DNA' : 'RNA';
+  return atom.atomName === 'CA' && atom.element === 'C' ? 'protein' : 'other';
+}
+
+/**
+ * List the chains of the first model with their residue counts and polymer type, in file order
+ * A chain takes the type of the majority of its residues
+ */
+export function listChains(content: string | Uint8Array, format: StructureFormat): StructureChain[] {
+  const [model] = parseModels(content, format);
+  const residues = new Map<string, Map<string, PolymerType>>();
+  for (const atom of model.allAtoms) {
+    if (isWater(atom.resn)) continue;
+    if (!residues.has(atom.chain)) residues.set(atom.chain, new Map());
+    const chainResidues = residues.get(atom.chain)!;
+    const key = residueKey(atom);
+    const type = residuePolymerType(atom);
+    if (!chainResidues.has(key) || type !== 'other') chainResidues.set(key, type);
+  }
+
+  return Array.from(residues.entries()).map(([chain, types]) => {
+    const counts = new Map<PolymerType, number>();
+    for (const type of types.values()) counts.set(type, (counts.get(type) ?? 0) + 1);
+    const [polymer, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    return { chain, residueCount: types.size, polymer: count * 2 > types.size ? polymer : 'other' };
+  });
+}
+
+/**
+ * Solvent-accessible surface area (Å²) of each atom, counting only the given occluders
+ */
+function atomSurface(atoms: Atom[], occluders: SpatialGrid[]): Map<Atom, number> {
+  const points = spherePoints(SPHERE_POINTS);
+  const maxReach = Math.max(...Object.values(VDW_RADII)) + PROBE_RADIUS;
+  const surface = new Map<Atom, number>();
+
+  for (const atom of atoms) {
+    const radius = vdwRadius(atom) + PROBE_RADIUS;
+    const neighbors = occluders
+      .flatMap(grid => findNeighbors(grid, atom, radius + maxReach))
+      .filter(other => other !== atom)
+      .map(other => ({ atom: other, reach: (vdwRadius(other) + PROBE_RADIUS) ** 2 }));
+
+    let exposed = 0;
+    for (const [dx, dy, dz] of points) {
+      const x = atom.x + dx * radius;
+      const y = atom.y + dy * radius;
+      const z = atom.z + dz * radius;
+      const buried = neighbors.some(({ atom: other, reach }) =>
+        (other.x - x) ** 2 + (other.y - y) ** 2 + (other.z - z) ** 2 < reach
+      );
+      if (!buried) exposed++;
+    }
+    surface.set(atom, 4 * Math.PI * radius * radius * (exposed / points.length));
+  }
+
+  return surface;
+}
+
+/**
+ * Surface each atom loses when the other group is added (only atoms close enough to be occluded)
+ */
+function buriedAreaByAtom(
+  atoms: Atom[],
+  ownGrid: SpatialGrid,
+  otherGrid: SpatialGrid
+): Map<Atom, number> {
+  const reach = 2 * (Math.max(...Object.values(VDW_RADII)) + PROBE_RADIUS);
+  const near = atoms.filter(atom => findNeighbors(otherGrid, atom, reach).length > 0);
+
+  const alone = atomSurface(near, [ownGrid]);
+  const complex = atomSurface(near, [ownGrid, otherGrid]);
+
+  const buried = new Map<Atom, number>();
+  for (const atom of near) {
+    buried.set(atom, alone.get(atom)! - complex.get(atom)!);
+  }
+  return buried;
+}
+
+/**
+ * Keep the closest hydrophobic contact of each receptor–partner residue pair
+ */
+function closestPerResiduePair(interactions: HydrophobicInteraction[]): HydrophobicInteraction[] {
+  const best = new Map<string, HydrophobicInteraction>();
+  for (const interaction of interactions) {
+    const key = `${interaction.residue}|${interaction.partnerResidue}`;
+    const existing = best.get(key);
+    if (!existing || interaction.distance < existing.distance) {
+      best.set(key, interaction);
+    }
+  }
+  return Array.from(best.values());
+}
+
+/**
+ * Analyze the interface between two chain groups of a PDB, mmCIF or BinaryCIF structure
+ * Throws when a group is empty, the groups overlap, a group has no atoms or the groups do not touch
+ */
+export function analyzeInterface(
+  content: string | Uint8Array,
+  format: StructureFormat,
+  filename: string | undefined,
+  params: AnalysisParams,
+  chainGroups: ChainGroups,
+  onProgress: ProgressCallback = () => {}
+): InterfaceResult {
+  const startTime = Date.now();
+  const { receptor, partner } = chainGroups;
+
+  if (receptor.length === 0 || partner.length === 0) {
+    throw new Error('Receptor and partner chain groups must not be empty');
+  }
+  if (receptor.some(chain => partner.includes(chain))) {
+    throw new Error('A chain cannot be in both the receptor and the partner group');
+  }
+
+  onProgress({ status: 'parsing', progress: 10, message: format === 'pdb' ? 'Parsing PDB file...' : 'Parsing mmCIF file...' });
+  const [model] = parseModels(content, format);
+  const { allAtoms, hydrogenAtoms } = model;
+
+  // Use explicit hydrogens when present, otherwise optionally place polar ones
+  if (hydrogenAtoms.length > 0) {
+    assignHydrogens(allAtoms, hydrogenAtoms);
+  } else if (params.addHydrogens) {
+    addHydrogens(allAtoms);
+  }
+
+  // Water and ions are left out of both groups
+  const waterAndIons = findReceptorContextAtoms(allAtoms);
+  const inGroup = (chains: string[]) => allAtoms.filter(atom =>
+    chains.includes(atom.chain) && !waterAndIons.has(atom)
+  );
+  const receptorAtoms = inGroup(receptor);
+  const partnerAtoms = inGroup(partner);
+  if (receptorAtoms.length === 0) throw new Error(`No atoms found in receptor chains ${receptor.join(', ')}`);
+  if (partnerAtoms.length === 0) throw new Error(`No atoms found in partner chains ${partner.join(', ')}`);
+
+  onProgress({ status: 'building-grid', progress: 20, message: 'Building spatial index...' });
+  const receptorGrid = buildSpatialGrid(receptorAtoms, 5.0);
+  const partnerGrid = buildSpatialGrid(partnerAtoms, 5.0);
+
+  // Residue contacts across the interface
+  onProgress({ status: 'finding-sites', progress: 30, message: 'Detecting interface residues...' });
+  const contacts = new Map<string, Set<string>>();
+  const addContact = (from: string, to: string) => {
+    if (!contacts.has(from)) contacts.set(from, new Set());
+    contacts.get(from)!.add(to);
+  };
+  const receptorInterface = new Set<Atom>();
+  const partnerInterface = new Set<Atom>();
+  for (const partnerAtom of partnerAtoms) {
+    for (const receptorAtom of findNeighbors(receptorGrid, partnerAtom, INTERFACE_CONTACT_DISTANCE)) {
+      receptorInterface.add(receptorAtom);
+      partnerInterface.add(partnerAtom);
+      addContact(`R|${residueKey(receptorAtom)}`, `P|${residueKey(partnerAtom)}`);
+      addContact(`P|${residueKey(partnerAtom)}`, `R|${residueKey(receptorAtom)}`);
+    }
+  }
+  if (contacts.size === 0) {
+    throw new Error('The receptor and partner chains have no contacts');
+  }
+
+  // The partner's interface atoms stand in for the ligand of a binding site
+  const partnerBySerial = new Map(partnerAtoms.map(atom => [atom.serial, atom]));
+  const first = partnerAtoms[0];
+  const site = (atoms: Atom[], pocketAtoms: Atom[] = Array.from(receptorInterface)): BindingSite => {
+    const ligand: Ligand = {
+      siteId: 1, chain: first.chain, resi: first.resi, iCode: first.iCode, resn: first.resn, atoms, type: 'SMALLMOLECULE',
+      ligandClass: 'druglike',
+    };
+    return { siteId: 1, ligand, pocketResidues: [], pocketAtoms };
+  };
+  const partnerLabel = (serial: number) => {
+    const atom = partnerBySerial.get(serial);
+    return atom ? residueLabel(atom) : '';
+  };
+
+  // Rings and charged groups need whole residues, not only the atoms within contact distance
+  const wholeResidues = (atoms: Atom[], side: 'R' | 'P') =>
+    atoms.filter(atom => contacts.has(`${side}|${residueKey(atom)}`));
+  const receptorResidueAtoms = wholeResidues(receptorAtoms, 'R');
+  const partnerResidueAtoms = wholeResidues(partnerAtoms, 'P');
+
+  // Hydrophobic contacts between side-chain carbons of hydrophobic residues (and nucleotide
+  // methyl/deoxyribose carbons) on both sides
+  onProgress({ status: 'analyzing-hydrophobic', progress: 40, message: 'Analyzing hydrophobic contacts...' });
+  const isHydrophobicCarbon = (atom: Atom) =>
+    atom.element === 'C' && (
+      isHydrophobicNucleotideAtom(atom) ||
+      (atom.atomName !== 'C' && atom.atomName !== 'CA' && HYDROPHOBIC_RESIDUES.has(atom.resn.toUpperCase()))
+    );
+  const hydrophobicGrid = buildSpatialGrid(receptorAtoms.filter(isHydrophobicCarbon), 5.0);
+  const hydrophobic = closestPerResiduePair(
+    findHydrophobicInteractionsByAtom(
+      site(Array.from(partnerInterface).filter(isHydrophobicCarbon)),
+      hydrophobicGrid,
+      params.hydrophobicMaxDist
+    ).map(interaction => ({ ...interaction, partnerResidue: partnerLabel(interaction.ligandAtomSerial) }))
+  );
+
+  // H-bonds with protein donor/acceptor rules on both sides
+  onProgress({ status: 'analyzing-hbond', progress: 50, message: 'Analyzing H-bonds...' });
+  const hbond: HbondInteraction[] = findHbondInteractions(
+    site(Array.from(partnerInterface)),
+    receptorGrid,
+    params.hbondMaxDist,
+    params.hbondMinAngle,
+    getProteinAtomProperties
+  ).map(interaction => ({
+    ...interaction,
+    partnerResidue: partnerLabel(interaction.proteinDonor ? interaction.acceptorAtomSerial : interaction.donorAtomSerial),
+  }));
+
+  // Salt bridges between charged residues, including LYS/ARG with nucleotide phosphates
+  onProgress({ status: 'analyzing-saltbridge', progress: 60, message: 'Analyzing salt bridges...' });
+  const residueSite = site(partnerResidueAtoms, receptorResidueAtoms);
+  const saltbridge = findSaltbridgeInteractions(residueSite, params.saltBridgeMaxDist, getProteinChargedGroups)
+    .map(interaction => ({ ...interaction, partnerResidue: partnerLabel(interaction.ligandAtomSerial) }));
+
+  // Stacking between aromatic side chains and nucleotide bases
+  onProgress({ status: 'analyzing-pistacking', progress: 70, message: 'Analyzing pi-stacking...' });
+  const pistacking = findPistackingInteractions(residueSite, params.piStackingMaxDist, getProteinRings)
+    .map(interaction => ({ ...interaction, partnerResidue: partnerLabel(interaction.ligandRingSerial) }));
+
+  // Buried surface area, per atom and summed per residue
+  onProgress({ status: 'analyzing-surface', progress: 80, message: 'Computing buried surface area...' });
+  const buriedByResidue = new Map<string, number>();
+  const addBuried = (side: string, buried: Map<Atom, number>) => {
+    for (const [atom, area] of buried) {
+      const key = `${side}|${residueKey(atom)}`;
+      buriedByResidue.set(key, (buriedByResidue.get(key) ?? 0) + area);
+    }
+  };
+  addBuried('R', buriedAreaByAtom(receptorAtoms, receptorGrid, partnerGrid));
+  addBuried('P', buriedAreaByAtom(partnerAtoms, partnerGrid, receptorGrid));
+
+  // Per-residue summary
+  const count = <T extends { residue: string; partnerResidue?: string }>(records: T[], side: 'R' | 'P', label: string) =>
+    records.filter(record => (side === 'R' ? record.residue : record.partnerResidue) === label).length;
+
+  const residues: InterfaceResidue[] = Array.from(contacts.entries()).map(([key, partners]) => {
+    const side = key.substring(0, 1) as 'R' | 'P';
+    const ref = parseResidueKey(key.substring(2));
+    const label = residueLabel(ref);
+    return {
+      residue: label,
+      resn: ref.resn,
+      side: side === 'R' ? 'receptor' as const : 'partner' as const,
+      contacts: Array.from(partners).map(other => residueLabel(parseResidueKey(other.substring(2)))),
+      hydrophobic: count(hydrophobic, side, label),
+      hbond: count(hbond, side, label),
+      saltbridge: count(saltbridge, side, label),
+      pistacking: count(pistacking, side, label),
+      buriedArea: Number((buriedByResidue.get(key) ?? 0).toFixed(1)),
+    };
+  });
+
+  const order = (residue: InterfaceResidue) => (residue.side === 'receptor' ? 0 : 1);
+  residues.sort((a, b) => order(a) - order(b) || b.buriedArea - a.buriedArea);
+
+  const sortAndIndex = <T extends { index: number }>(records: T[], by: (record: T) => number) => {
+    records.sort((a, b) => by(a) - by(b));
+    records.forEach((record, i) => {
+      record.index = i + 1;
+    });
+    return records;
+  };
+
+  const buriedSurfaceArea = Array.from(buriedByResidue.values()).reduce((sum, area) => sum + area, 0);
+
+  onProgress({ status: 'complete', progress: 100, message: 'Analysis complete' });
+
+  return {
+    success: true,
+    filename,
+    timestamp: Date.now(),
+    params,
+    chainGroups,
+    residues,
+    hydrophobic: sortAndIndex(hydrophobic, record => record.distance),
+    hbond: sortAndIndex(hbond, record => record.distanceDA),
+    saltbridge: sortAndIndex(saltbridge, record => record.distance),
+    pistacking: sortAndIndex(pistacking, record => record.distance),
+    stats: {
+      receptorResidues: residues.filter(residue => residue.side === 'receptor').length,
+      partnerResidues: residues.filter(residue => residue.side === 'partner').length,
+      totalHydrophobic: hydrophobic.length,
+      totalHbond: hbond.length,
+      totalSaltbridge: saltbridge.length,
+      totalPistacking: pistacking.length,
+      buriedSurfaceArea: Number(buriedSurfaceArea.toFixed(1)),
+      analysisTime: Date.now() - startTime,
+    },
+  };
+}
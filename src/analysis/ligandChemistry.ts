@@ -0,0 +1,175 @@
+/**
+ * Ligand chemistry perception
+ * Derives hybridization, aromaticity, hydrogen counts and functional groups
+ * from ligand connectivity (CONECT records or inferred bonds)
+ */
+
+import { Atom } from '../types/interaction';
+import { estimateBondOrder, inferBonds, inferHybridization } from './bondPerception';
+import { getLigandRings } from './rings';
+import { countImplicitHydrogens, hasHydrogens } from './hydrogens';
+
+const HALOGENS = new Set(['F', 'Cl', 'Br', 'I']);
+
+/**
+ * Label functional groups on ligand atoms
+ * Every atom of a group carries the group label
+ */
+function labelFunctionalGroups(
+  atoms: Atom[],
+  adjacency: Map<number, Atom[]>,
+  aromatic: Set<number>
+): Map<number, string[]> {
+  const labels = new Map<number, string[]>();
+  const neighborsOf = (atom: Atom) => adjacency.get(atom.serial) ?? [];
+  const isTerminalOxygen = (atom: Atom) => atom.element === 'O' && neighborsOf(atom).length === 1;
+  const has = (atom: Atom, label: string) => labels.get(atom.serial)?.includes(label) ?? false;
+  const label = (groupAtoms: Atom[], name: string) => {
+    for (const atom of groupAtoms) {
+      const current = labels.get(atom.serial) ?? [];
+      if (!current.includes(name)) {
+        labels.set(atom.serial, [...current, name]);
+      }
+    }
+  };
+
+  // Multi-atom groups centred on C, N, S and P
+  for (const atom of atoms) {
+    const neighbors = neighborsOf(atom);
+    const oxygens = neighbors.filter(isTerminalOxygen);
+    const nitrogens = neighbors.filter(n => n.element === 'N');
+
+    switch (atom.element) {
+      case 'C': {
+        if (oxygens.length === 2) {
+          label([atom, ...oxygens], 'carboxylate');
+          break;
+        }
+
+        const carbonylOxygen = aromatic.has(atom.serial)
+          ? undefined
+          : oxygens.find(o => estimateBondOrder(atom, o) > 1);
+        if (carbonylOxygen) {
+          const esterOxygen = neighbors.find(n => n.element === 'O' && neighborsOf(n).length === 2);
+          if (nitrogens.length > 0) {
+            label([atom, carbonylOxygen, ...nitrogens], 'amide');
+          } else if (esterOxygen) {
+            label([atom, carbonylOxygen, esterOxygen], 'ester');
+          } else {
+            label([atom, carbonylOxygen], 'carbonyl');
+          }
+          break;
+        }
+
+        // Guanidine and amidine carbons carry no oxygen or sulfur
+        if (neighbors.length === 3 && nitrogens.length >= 2 &&
+            !neighbors.some(n => n.element === 'O' || n.element === 'S')) {
+          label([atom, ...nitrogens], nitrogens.length === 3 ? 'guanidine' : 'amidine');
+        }
+        break;
+      }
+
+      case 'N':
+        if (oxygens.length === 2) {
+          label([atom, ...oxygens], 'nitro');
+        }
+        break;
+
+      case 'S':
+        if (oxygens.length >= 3) {
+          label([atom, ...oxygens], 'sulfonate');
+        } else if (oxygens.length === 2) {
+          label([atom, ...oxygens], 'sulfonyl');
+          if (nitrogens.length > 0) {
+            label([atom, ...oxygens, ...nitrogens], 'sulfonamide');
+          }
+        }
+        break;
+
+      case 'P':
+        if (oxygens.length >= 2) {
+          label([atom, ...oxygens], 'phosphate');
+        }
+        break;
+    }
+  }
+
+  // Single-atom groups for atoms not already part of a larger group
+  for (const atom of atoms) {
+    const neighbors = neighborsOf(atom);
+    if (neighbors.length === 0 || labels.has(atom.serial)) continue;
+
+    if (HALOGENS.has(atom.element)) {
+      if (neighbors.some(n => n.element === 'C')) label([atom], 'halide');
+      continue;
+    }
+
+    switch (atom.element) {
+      case 'O':
+        if (neighbors.length === 1 && estimateBondOrder(atom, neighbors[0]) === 1) {
+          label([atom], 'hydroxyl');
+        } else if (neighbors.length === 2 && neighbors.every(n => n.element === 'C' && !has(n, 'ester'))) {
+          label([atom], 'ether');
+        }
+        break;
+
+      case 'N': {
+        const orders = neighbors.map(n => estimateBondOrder(atom, n));
+        if (neighbors.length === 1 && orders[0] === 3) {
+          label([atom], 'nitrile');
+        } else if (aromatic.has(atom.serial)) {
+          label([atom], 'aromatic-nitrogen');
+        } else if (orders.includes(2)) {
+          label([atom], 'imine');
+        } else if (inferHybridization(atom, adjacency) === 'sp3') {
+          label([atom], 'amine');
+        }
+        break;
+      }
+
+      case 'S':
+        if (neighbors.length === 1 && estimateBondOrder(atom, neighbors[0]) === 1) {
+          label([atom], 'thiol');
+        } else if (neighbors.length === 2 && neighbors.every(n => n.element === 'C')) {
+          label([atom], 'thioether');
+        }
+        break;
+    }
+  }
+
+  return labels;
+}
+
+/**
+ * Perceive chemistry for one ligand and store it on its atoms (Atom.chemistry)
+ * Hydrogen counts come from explicit hydrogens when present, otherwise from valence
+ */
+export function perceiveLigandChemistry(ligandAtoms: Atom[]): void {
+  const adjacency = inferBonds(ligandAtoms);
+  const rings = getLigandRings(ligandAtoms);
+
+  const aromatic = new Set<number>();
+  const ringSizes = new Map<number, number[]>();
+  for (const ring of rings) {
+    for (const atom of ring.atoms) {
+      ringSizes.set(atom.serial, [...(ringSizes.get(atom.serial) ?? []), ring.atoms.length]);
+      if (ring.aromatic) aromatic.add(atom.serial);
+    }
+  }
+
+  const groups = labelFunctionalGroups(ligandAtoms, adjacency, aromatic);
+
+  for (const atom of ligandAtoms) {
+    const neighbors = adjacency.get(atom.serial) ?? [];
+    const isAromatic = aromatic.has(atom.serial);
+
+    atom.chemistry = {
+      hybridization: isAromatic ? 'sp2' : inferHybridization(atom, adjacency),
+      aromatic: isAromatic,
+      hydrogenCount: hasHydrogens(atom)
+        ? atom.hydrogens!.length
+        : countImplicitHydrogens(atom, neighbors, ringSizes.get(atom.serial) ?? []),
+      functionalGroups: groups.get(atom.serial) ?? [],
+    };
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Ligand classification
+ * Sorts HETATM residues into ions, water, crystallization additives, glycans, cofactors and
+ * drug-like molecules using the bundled component dictionary (src/data/ligandComponents.json)
+ */
+
+import { Atom, LigandClass } from '../types/interaction';
+import ligandComponents from '../data/ligandComponents.json';
+
+// Classes the analyzer can turn into binding sites, in display order (water never forms a site)
+export const SITE_LIGAND_CLASSES: LigandClass[] = ['druglike', 'cofactor', 'glycan', 'additive', 'ion'];
+
+const WATER_RESIDUES = new Set(ligandComponents.water);
+const ION_RESIDUES = new Set(ligandComponents.ion);
+
+/**
+ * Component dictionary for multi-atom residues
+ * Format: resn -> class
+ */
+const COMPONENT_CLASSES = new Map<string, LigandClass>([
+  ...ligandComponents.additive.map(resn => [resn, 'additive'] as const),
+  ...ligandComponents.glycan.map(resn => [resn, 'glycan'] as const),
+  ...ligandComponents.cofactor.map(resn => [resn, 'cofactor'] as const),
+]);
+
+/**
+ * Check if a residue is water (HOH, WAT, DOD and MD names such as SOL or TIP3)
+ */
+export function isWater(resn: string): boolean {
+  return WATER_RESIDUES.has(resn.toUpperCase());
+}
+
+/**
+ * Classify a HETATM residue from its name and heavy atoms
+ * Ion names only apply to single-atom residues, so a docked ligand named S, F or I or
+ * chlorophyll (CLA, also a CHARMM chloride name) is not mistaken for an ion
+ * Residues missing from the dictionary are drug-like
+ */
+export function classifyLigand(resn: string, atoms: Atom[]): LigandClass {
+  const upperResn = resn.toUpperCase();
+  if (isWater(upperResn)) return 'water';
+  if (atoms.length === 1 && ION_RESIDUES.has(upperResn)) return 'ion';
+  return COMPONENT_CLASSES.get(upperResn) ?? 'druglike';
+}
+
+/**
+ * Water and ions stay with the receptor as context instead of being analyzed as ligands
+ */
+export function isReceptorContext(ligandClass: LigandClass): boolean {
+  return ligandClass === 'water' || ligandClass === 'ion';
+}
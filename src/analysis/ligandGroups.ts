@@ -0,0 +1,92 @@
+/**
+ * Multi-residue ligand grouping
+ * Merges HETATM residues joined by a covalent bond (N-glycan chains, HETATM peptides, ligands
+ * split into several residues) into one ligand, and applies manual groups from the user
+ */
+
+import { Atom } from '../types/interaction';
+import { groupLigands } from './pdbParser';
+import { buildSpatialGrid, findNeighbors } from './spatialGrid';
+import { isBonded } from './bondPerception';
+
+// Search radius for bonds between residues (Å); isBonded decides
+const MAX_BOND_SEARCH_DISTANCE = 3.0;
+
+/**
+ * Residue identifier used in manual groups, e.g. "A:401" or "H:100A"
+ */
+function residueId(atom: Atom): string {
+  return `${atom.chain}:${atom.resi}${atom.iCode}`;
+}
+
+/**
+ * Parse manual groups: one group per entry, residues as chain:resi[iCode] separated by
+ * spaces or commas. Returns residue id -> group index
+ */
+function parseManualGroups(manualGroups: string[]): Map<string, number> {
+  const groupOf = new Map<string, number>();
+  manualGroups.forEach((group, i) => {
+    for (const id of group.split(/[\s,;]+/).filter(Boolean)) {
+      groupOf.set(id, i);
+    }
+  });
+  return groupOf;
+}
+
+/**
+ * Group ligand atoms into ligands
+ * Residues bonded by CONECT/LINK records or covalent distance share a ligand when mergeBonded
+ * is set; residues listed in a manual group leave their automatic group. Ligands are ordered
+ * by their first residue in the file
+ */
+export function groupLigandResidues(ligandAtoms: Atom[], mergeBonded: boolean, manualGroups: string[] = []): Atom[][] {
+  const residues = Array.from(groupLigands(ligandAtoms).values());
+
+  // Union-find over residue indices
+  const parent = residues.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  if (mergeBonded && residues.length > 1) {
+    const residueOf = new Map<Atom, number>();
+    const bySerial = new Map<number, Atom>();
+    residues.forEach((atoms, i) => atoms.forEach(atom => {
+      residueOf.set(atom, i);
+      bySerial.set(atom.serial, atom);
+    }));
+
+    const grid = buildSpatialGrid(ligandAtoms, 5.0);
+    for (const atom of ligandAtoms) {
+      const i = residueOf.get(atom)!;
+      const recorded = (atom.conect ?? []).map(serial => bySerial.get(serial)).filter(
+        (partner): partner is Atom => partner !== undefined
+      );
+      const partners = [
+        ...recorded,
+        ...findNeighbors(grid, atom, MAX_BOND_SEARCH_DISTANCE).filter(other => isBonded(atom, other)),
+      ];
+      for (const partner of partners) {
+        const j = residueOf.get(partner)!;
+        if (j !== i) parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const manual = parseManualGroups(manualGroups);
+  const groups = new Map<string, Atom[]>();
+  residues.forEach((atoms, i) => {
+    const manualGroup = manual.get(residueId(atoms[0]));
+    const owner = manualGroup !== undefined ? `manual:${manualGroup}` : `auto:${find(i)}`;
+    if (!groups.has(owner)) {
+      groups.set(owner, []);
+    }
+    groups.get(owner)!.push(...atoms);
+  });
+
+  return Array.from(groups.values());
+}
@@ -0,0 +1,105 @@
+/**
+ * mmCIF / BinaryCIF structure parser
+ * Reads atom_site directly into Atom records, keeping full-length chain IDs and serials
+ */
+
+import { Atom } from '../types/interaction';
+import { CifCategory, CifFile, isCifMissing } from '../utils/cif';
+import { readConnections } from '../utils/pdbRecords';
+import { ParsedModel, buildModel } from './pdbParser';
+import { isModelCif, readModelCifPae, readModelCifPlddt } from './confidence';
+
+/**
+ * Read a column value, falling back to a second column when the first is missing
+ * auth_* identifiers are preferred so residue numbering matches the PDB-format file
+ */
+function columnReader(category: CifCategory) {
+  return (row: number, ...names: string[]): string => {
+    for (const name of names) {
+      const value = category.fields.get(name)?.[row];
+      if (!isCifMissing(value)) return value!;
+    }
+    return '';
+  };
+}
+
+/**
+ * Parse every model of an mmCIF or BinaryCIF file
+ * Uses the first data block with an atom_site category; models come from pdbx_PDB_model_num
+ * ModelCIF files get pLDDT from ma_qa_metric_local (B_iso_or_equiv when absent) and PAE
+ * from ma_qa_metric_local_pairwise
+ */
+export function parseMMCIFModels(cif: CifFile): ParsedModel[] {
+  const block = cif.blocks.find(candidate => (candidate.categories.get('atom_site')?.rowCount ?? 0) > 0);
+
+  if (!block) {
+    throw new Error('No atom_site category found in mmCIF file');
+  }
+
+  const atomSite = block.categories.get('atom_site')!;
+  const get = columnReader(atomSite);
+  const modelCif = isModelCif(block);
+  const localPlddt = modelCif ? readModelCifPlddt(block) : new Map<string, number>();
+  const modelAtoms = new Map<number, Atom[]>();
+
+  for (let row = 0; row < atomSite.rowCount; row++) {
+    const x = parseFloat(get(row, 'Cartn_x'));
+    const y = parseFloat(get(row, 'Cartn_y'));
+    const z = parseFloat(get(row, 'Cartn_z'));
+    if (isNaN(x) || isNaN(y) || isNaN(z)) continue;
+
+    const symbol = get(row, 'type_symbol') || 'C';
+    const labelSeqId = parseInt(get(row, 'label_seq_id'));
+    const formalCharge = parseInt(get(row, 'pdbx_formal_charge'));
+    const occupancy = parseFloat(get(row, 'occupancy'));
+    const bFactor = parseFloat(get(row, 'B_iso_or_equiv'));
+    const labelAsymId = get(row, 'label_asym_id');
+
+    const atom: Atom = {
+      serial: parseInt(get(row, 'id')) || row + 1,
+      atomName: get(row, 'auth_atom_id', 'label_atom_id'),
+      resn: get(row, 'auth_comp_id', 'label_comp_id'),
+      chain: get(row, 'auth_asym_id', 'label_asym_id'),
+      resi: parseInt(get(row, 'auth_seq_id', 'label_seq_id')) || 0,
+      iCode: get(row, 'pdbx_PDB_ins_code'),
+      x,
+      y,
+      z,
+      element: symbol[0].toUpperCase() + symbol.substring(1).toLowerCase(),
+      hetflag: get(row, 'group_PDB') === 'HETATM',
+      altLoc: get(row, 'label_alt_id'),
+      formalCharge: isNaN(formalCharge) ? undefined : formalCharge,
+      occupancy: isNaN(occupancy) ? undefined : occupancy,
+      bFactor: isNaN(bFactor) ? undefined : bFactor,
+      labelAsymId: labelAsymId || undefined,
+      labelSeqId: isNaN(labelSeqId) ? undefined : labelSeqId,
+    };
+    if (modelCif) {
+      atom.plddt = localPlddt.get(`${labelAsymId}:${get(row, 'label_seq_id')}`) ?? atom.bFactor;
+    }
+
+    const model = parseInt(get(row, 'pdbx_PDB_model_num')) || 1;
+    if (!modelAtoms.has(model)) {
+      modelAtoms.set(model, []);
+    }
+    modelAtoms.get(model)!.push(atom);
+  }
+
+  if (modelAtoms.size === 0) {
+    throw new Error('No atom data found in mmCIF file');
+  }
+
+  // Covalent struct_conn rows within the asymmetric unit; bonds inside ligands are inferred from geometry
+  const links = readConnections(block)
+    .filter(({ symmetry }) => symmetry.every(op => op === '' || op === '1555'))
+    .map(({ partners }) => partners);
+
+  return Array.from(modelAtoms.entries()).map(([model, atoms]) => {
+    const parsed = buildModel(model, atoms, new Map(), links);
+    if (modelCif) {
+      parsed.plddtSource = 'modelcif';
+      parsed.pae = readModelCifPae(block, atoms);
+    }
+    return parsed;
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * Nucleotide residue templates
+ * Maps DNA/RNA residue names (standard and common modified) to their parent base and
+ * defines H-bond donors/acceptors, stacking rings, phosphate and hydrophobic atoms
+ */
+
+import { Atom } from '../types/interaction';
+
+export type NucleotideBase = 'A' | 'C' | 'G' | 'U' | 'T' | 'I';
+
+export interface NucleotideTemplate {
+  base: NucleotideBase;
+  dna: boolean;  // Deoxyribose sugar (no O2')
+}
+
+/**
+ * Nucleotide residues
+ * Format: resn -> {base, dna}
+ */
+export const NUCLEOTIDE_RESIDUES: Record<string, NucleotideTemplate> = {
+  // RNA
+  A: { base: 'A', dna: false },
+  C: { base: 'C', dna: false },
+  G: { base: 'G', dna: false },
+  U: { base: 'U', dna: false },
+  I: { base: 'I', dna: false },
+
+  // DNA
+  DA: { base: 'A', dna: true },
+  DC: { base: 'C', dna: true },
+  DG: { base: 'G', dna: true },
+  DT: { base: 'T', dna: true },
+  DU: { base: 'U', dna: true },
+  DI: { base: 'I', dna: true },
+
+  // Modified RNA (methylated, thiolated and isomerized bases, 2'-O-methyl sugars)
+  PSU: { base: 'U', dna: false },
+  '5MU': { base: 'T', dna: false },
+  '5MC': { base: 'C', dna: false },
+  '4SU': { base: 'U', dna: false },
+  '5BU': { base: 'U', dna: false },
+  '1MA': { base: 'A', dna: false },
+  '1MG': { base: 'G', dna: false },
+  '2MG': { base: 'G', dna: false },
+  M2G: { base: 'G', dna: false },
+  '7MG': { base: 'G', dna: false },
+  OMC: { base: 'C', dna: false },
+  OMG: { base: 'G', dna: false },
+  OMU: { base: 'U', dna: false },
+  A2M: { base: 'A', dna: false },
+
+  // Modified DNA
+  '5CM': { base: 'C', dna: true },
+  '8OG': { base: 'G', dna: true },
+  BRU: { base: 'U', dna: true },
+  '5IU': { base: 'U', dna: true },
+  CBR: { base: 'C', dna: true },
+};
+
+/**
+ * Donor/acceptor rules for nucleotide atoms
+ * Format: base:atomName (or resn:atomName for modified residues) -> {donor, acceptor, sideChain}
+ * Base atoms count as side chain, sugar-phosphate backbone atoms do not
+ */
+const NUCLEOTIDE_DONOR_ACCEPTOR_RULES: Record<string, { donor: boolean; acceptor: boolean; sideChain: boolean }> = {
+  // Purines (N9 carries the sugar)
+  'A:N1': { donor: false, acceptor: true, sideChain: true },
+  'A:N3': { donor: false, acceptor: true, sideChain: true },
+  'A:N6': { donor: true, acceptor: false, sideChain: true },
+  'A:N7': { donor: false, acceptor: true, sideChain: true },
+  'A:N9': { donor: false, acceptor: false, sideChain: true },
+  'G:N1': { donor: true, acceptor: false, sideChain: true },
+  'G:N2': { donor: true, acceptor: false, sideChain: true },
+  'G:N3': { donor: false, acceptor: true, sideChain: true },
+  'G:O6': { donor: false, acceptor: true, sideChain: true },
+  'G:N7': { donor: false, acceptor: true, sideChain: true },
+  'G:N9': { donor: false, acceptor: false, sideChain: true },
+  'I:N1': { donor: true, acceptor: false, sideChain: true },
+  'I:N3': { donor: false, acceptor: true, sideChain: true },
+  'I:O6': { donor: false, acceptor: true, sideChain: true },
+  'I:N7': { donor: false, acceptor: true, sideChain: true },
+  'I:N9': { donor: false, acceptor: false, sideChain: true },
+
+  // Pyrimidines (N1 carries the sugar)
+  'C:N1': { donor: false, acceptor: false, sideChain: true },
+  'C:O2': { donor: false, acceptor: true, sideChain: true },
+  'C:N3': { donor: false, acceptor: true, sideChain: true },
+  'C:N4': { donor: true, acceptor: false, sideChain: true },
+  'U:N1': { donor: false, acceptor: false, sideChain: true },
+  'U:O2': { donor: false, acceptor: true, sideChain: true },
+  'U:N3': { donor: true, acceptor: false, sideChain: true },
+  'U:O4': { donor: false, acceptor: true, sideChain: true },
+  'T:N1': { donor: false, acceptor: false, sideChain: true },
+  'T:O2': { donor: false, acceptor: true, sideChain: true },
+  'T:N3': { donor: true, acceptor: false, sideChain: true },
+  'T:O4': { donor: false, acceptor: true, sideChain: true },
+
+  // Pseudouridine is C-glycosidic, so N1 keeps its hydrogen
+  'PSU:N1': { donor: true, acceptor: false, sideChain: true },
+
+  // Methylated ring nitrogens (1MA and 7MG carry a positive charge) lose their H or lone pair
+  '1MA:N1': { donor: false, acceptor: false, sideChain: true },
+  '1MG:N1': { donor: false, acceptor: false, sideChain: true },
+  '7MG:N7': { donor: false, acceptor: false, sideChain: true },
+  'M2G:N2': { donor: false, acceptor: false, sideChain: true },
+
+  // 4-thiouridine replaces O4 with a thiocarbonyl sulfur
+  '4SU:S4': { donor: false, acceptor: true, sideChain: true },
+
+  // 2'-O-methyl sugars have no 2'-hydroxyl hydrogen
+  'OMC:O2\'': { donor: false, acceptor: true, sideChain: false },
+  'OMG:O2\'': { donor: false, acceptor: true, sideChain: false },
+  'OMU:O2\'': { donor: false, acceptor: true, sideChain: false },
+  'A2M:O2\'': { donor: false, acceptor: true, sideChain: false },
+};
+
+/**
+ * Donor/acceptor rules for sugar-phosphate backbone atoms (all nucleotides)
+ */
+const NUCLEOTIDE_BACKBONE_RULES: Record<string, { donor: boolean; acceptor: boolean; sideChain: boolean }> = {
+  OP1: { donor: false, acceptor: true, sideChain: false },
+  OP2: { donor: false, acceptor: true, sideChain: false },
+  OP3: { donor: false, acceptor: true, sideChain: false },
+  O1P: { donor: false, acceptor: true, sideChain: false },
+  O2P: { donor: false, acceptor: true, sideChain: false },
+  O3P: { donor: false, acceptor: true, sideChain: false },
+  'O5\'': { donor: false, acceptor: true, sideChain: false },
+  'O4\'': { donor: false, acceptor: true, sideChain: false },
+  'O3\'': { donor: false, acceptor: true, sideChain: false },
+  'O2\'': { donor: true, acceptor: true, sideChain: false },
+};
+
+/**
+ * Aromatic base ring atom names for stacking
+ */
+export const NUCLEOTIDE_BASE_RINGS: Record<NucleotideBase, string[][]> = {
+  A: [['N9', 'C8', 'N7', 'C5', 'C4'], ['N1', 'C2', 'N3', 'C4', 'C5', 'C6']],
+  G: [['N9', 'C8', 'N7', 'C5', 'C4'], ['N1', 'C2', 'N3', 'C4', 'C5', 'C6']],
+  I: [['N9', 'C8', 'N7', 'C5', 'C4'], ['N1', 'C2', 'N3', 'C4', 'C5', 'C6']],
+  C: [['N1', 'C2', 'N3', 'C4', 'C5', 'C6']],
+  U: [['N1', 'C2', 'N3', 'C4', 'C5', 'C6']],
+  T: [['N1', 'C2', 'N3', 'C4', 'C5', 'C6']],
+};
+
+// Non-bridging phosphate oxygens (current and legacy PDB names); they share the negative charge
+export const PHOSPHATE_OXYGENS = ['OP1', 'OP2', 'O1P', 'O2P'];
+
+// 5-methyl carbons of thymine and methylated pyrimidines (names differ between residues)
+const METHYL_CARBONS = new Set(['C7', 'C5M', 'C5A', 'CM5']);
+
+// Older files mark sugar atoms with '*' instead of a prime (C2* for C2')
+const atomKey = (atom: Atom) => atom.atomName.trim().toUpperCase().replace(/\*/g, '\'');
+
+/**
+ * Template for a nucleotide residue name, or undefined for other residues
+ */
+export function getNucleotideTemplate(resn: string): NucleotideTemplate | undefined {
+  return NUCLEOTIDE_RESIDUES[resn.toUpperCase()];
+}
+
+/**
+ * Check if a residue is a DNA or RNA nucleotide
+ */
+export function isNucleotide(resn: string): boolean {
+  return getNucleotideTemplate(resn) !== undefined;
+}
+
+/**
+ * Get donor/acceptor properties of a nucleotide atom
+ * Returns null for non-nucleotide residues and for atoms the templates do not cover
+ */
+export function getNucleotideAtomProperties(atom: Atom): { donor: boolean; acceptor: boolean; sideChain: boolean } | null {
+  const template = getNucleotideTemplate(atom.resn);
+  if (!template) return null;
+
+  const atomName = atomKey(atom);
+  return NUCLEOTIDE_DONOR_ACCEPTOR_RULES[`${atom.resn.toUpperCase()}:${atomName}`]
+    ?? NUCLEOTIDE_DONOR_ACCEPTOR_RULES[`${template.base}:${atomName}`]
+    ?? NUCLEOTIDE_BACKBONE_RULES[atomName]
+    ?? null;
+}
+
+/**
+ * Hydrophobic nucleotide carbons: base methyl groups and the deoxyribose C2'
+ */
+export function isHydrophobicNucleotideAtom(atom: Atom): boolean {
+  const template = getNucleotideTemplate(atom.resn);
+  if (!template) return false;
+
+  const atomName = atomKey(atom);
+  return METHYL_CARBONS.has(atomName) || (template.dna && atomName === 'C2\'');
+}
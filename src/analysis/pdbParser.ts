@@ -3,67 +3,28 @@
  * Parses ATOM and HETATM records from PDB format files
  */
 
-import { Atom } from '../types/interaction';
-
-// Residues to exclude from ligand detection (water, ions, etc.)
-export const EXCLUDED_RESIDUES = new Set([
-  'HOH', 'WAT', 'DOD',  // Water
-  'NA', 'SOD',          // Sodium
-  'CL', 'CLA',          // Chloride
-  'MG',  // Magnesium
-  'CA',  // Calcium
-  'K', 'POT',  // Potassium
-  'ZN',  // Zinc
-  'FE', 'FE2', 'FE3',  // Iron
-  'MN',  // Manganese
-  'CU',  // Copper
-  'CO',  // Cobalt
-  'NI',  // Nickel
-  'CD',  // Cadmium
-  'BA',  // Barium
-  'SR',  // Strontium
-  'BE',  // Beryllium
-  'LI',  // Lithium
-  'CS',  // Cesium
-  'AG',  // Silver
-  'AU',  // Gold
-  'HG',  // Mercury
-  'AL',  // Aluminum
-  'GA',  // Gallium
-  'IN',  // Indium
-  'TL',  // Thallium
-  'PB',  // Lead
-  'BI',  // Bismuth
-  'YB',  // Ytterbium
-  'EU',  // Europium
-  'SM',  // Samarium
-  'GD',  // Gadolinium
-  'TB',  // Terbium
-  'DY',  // Dysprosium
-  'Y',   // Yttrium
-  'W',   // Tungsten
-  'MO',  // Molybdenum
-  'V',   // Vanadium
-  'CR',  // Chromium
-  'PT',  // Platinum
-  'RU',  // Ruthenium
-  'RH',  // Rhodium
-  'PD',  // Palladium
-  'OS',  // Osmium
-  'IR',  // Iridium
-  'XE',  // Xenon
-  'KR',  // Krypton
-  'F',   // Fluorine
-  'BR',  // Bromine
-  'I',   // Iodine
-  'S',   // Sulfur
-]);
+import { Atom, ModelConfidence, PaeData } from '../types/interaction';
+import { decodeHybrid36 } from '../utils/hybrid36';
+import type { ConnectionPartner } from '../utils/pdbRecords';
+import { isNucleotide } from './nucleotides';
+import { classifyLigand, isReceptorContext } from './ligandClasses';
+
+// Header text identifying a predicted model (AlphaFold DB, ColabFold, ESMFold, ...)
+const PREDICTED_MODEL_PATTERN = /ALPHAFOLD|COLABFOLD|ESMFOLD|OPENFOLD|ROSETTAFOLD|PREDICTED MODEL/i;
 
 // Hydrophobic amino acids
 export const HYDROPHOBIC_RESIDUES = new Set([
   'ALA', 'VAL', 'LEU', 'ILE', 'MET', 'PHE', 'TRP', 'PRO', 'TYR',
 ]);
 
+// Metal elements that can act as cations or coordination centers
+export const METAL_ELEMENTS = new Set([
+  'Li', 'Na', 'K', 'Rb', 'Cs', 'Be', 'Mg', 'Ca', 'Sr', 'Ba',
+  'Mn', 'Fe', 'Co', 'Ni', 'Cu', 'Zn', 'Cd', 'Hg', 'V', 'Cr',
+  'Mo', 'W', 'Ag', 'Au', 'Pt', 'Pd', 'Ru', 'Rh', 'Os', 'Ir',
+  'Al', 'Ga', 'In', 'Tl', 'Pb', 'Bi', 'Y', 'Eu', 'Sm', 'Gd', 'Tb', 'Dy', 'Yb',
+]);
+
 /**
  * Parse element symbol from atom name
  * Atom names in PDB are formatted like " CA ", " N  ", "1HG ", " OXT"
@@ -97,12 +58,12 @@ export function parseAtomLine(line: string): Atom | null {
   // COLUMNS        DATA TYPE       FIELD           DEFINITION
   // -----------------------------------------------------------------
   // 1 - 6          Record name     "ATOM  " or "HETATM"
-  // 7 - 11         Integer         serial          Atom serial number
+  // 7 - 11         Integer         serial          Atom serial number (hybrid-36 above 99999)
   // 13 - 16        Atom            name            Atom name
   // 17             Character       altLoc          Alternate location
   // 18 - 20        Residue name    resn            Residue name
-  // 22             Character       chain           Chain identifier
-  // 23 - 26        Integer         resi            Residue sequence number
+  // 21 - 22        Character       chain           Chain identifier (column 21 holds wide chain IDs)
+  // 23 - 26        Integer         resi            Residue sequence number (hybrid-36 above 9999)
   // 27             AChar           iCode           Code for insertions
   // 31 - 38        Real(8.3)       x               Orthogonal X coordinate
   // 39 - 46        Real(8.3)       y               Orthogonal Y coordinate
@@ -123,28 +84,38 @@ export function parseAtomLine(line: string): Atom | null {
   }
 
   try {
-    const serial = parseInt(line.substring(6, 11).trim());
+    const serial = decodeHybrid36(5, line.substring(6, 11));
     const atomName = line.substring(12, 16).trim();
     const altLoc = line.substring(16, 17).trim();
     const resn = line.substring(17, 20).trim();
-    const chain = line.substring(21, 22).trim();
-    const resi = parseInt(line.substring(22, 26).trim());
+    const resi = decodeHybrid36(4, line.substring(22, 26));
+    const iCode = line.substring(26, 27).trim();
+
+    // Two-character chains spill into column 21; a blank chain falls back to the segment ID
+    const chain = line.substring(20, 22).trim() || line.substring(72, 76).trim();
     const x = parseFloat(line.substring(30, 38).trim());
     const y = parseFloat(line.substring(38, 46).trim());
     const z = parseFloat(line.substring(46, 54).trim());
+    const occupancy = parseFloat(line.substring(54, 60));
+    const bFactor = parseFloat(line.substring(60, 66));
 
     // Element symbol: check columns 77-78 first, otherwise parse from atom name
     let element = line.substring(76, 78).trim();
     if (!element) {
-      element = parseElementFromAtomName(atomName);
+      // Standard residues only contain single-letter elements (avoids reading "HG1" as mercury)
+      element = recordName === 'ATOM'
+        ? atomName.replace(/^\d+/, '').charAt(0) || 'C'
+        : parseElementFromAtomName(atomName);
     }
     // Capitalize properly
     element = element[0].toUpperCase() + (element[1]?.toLowerCase() || '');
 
-    // Skip hydrogen atoms (including deuterium)
-    if (element === 'H' || element === 'D') {
-      return null;
-    }
+    // Charge is written as magnitude then sign, e.g. "2+" or "1-"
+    const charge = line.substring(78, 80).trim();
+    const chargeMatch = /^(\d)([+-])$/.exec(charge);
+    const formalCharge = chargeMatch
+      ? parseInt(chargeMatch[1]) * (chargeMatch[2] === '-' ? -1 : 1)
+      : undefined;
 
     return {
       serial,
@@ -152,12 +123,16 @@ export function parseAtomLine(line: string): Atom | null {
       resn,
       chain,
       resi,
+      iCode,
       x,
       y,
       z,
       element,
       hetflag: recordName === 'HETATM',
       altLoc,
+      formalCharge,
+      occupancy: isNaN(occupancy) ? undefined : occupancy,
+      bFactor: isNaN(bFactor) ? undefined : bFactor,
     };
   } catch (e) {
     console.warn('Failed to parse atom line:', line, e);
@@ -166,28 +141,85 @@ export function parseAtomLine(line: string): Atom | null {
 }
 
 /**
- * Parse complete PDB file content
- * Returns protein atoms (ATOM records) and ligand atoms (HETATM records, filtered)
+ * Parse a CONECT record into a symmetric serial -> bonded serials map
+ * Repeated records (used by some writers to encode bond order) collapse into one bond
  */
-export function parsePDB(pdbContent: string): {
+function parseConectLine(line: string, conect: Map<number, Set<number>>): void {
+  // COLUMNS 7-11: atom serial; 12-16, 17-21, 22-26, 27-31: bonded atom serials
+  const serial = decodeHybrid36(5, line.substring(6, 11));
+  if (isNaN(serial)) return;
+
+  for (let start = 11; start < 31; start += 5) {
+    const partner = decodeHybrid36(5, line.substring(start, start + 5));
+    if (isNaN(partner) || partner === serial) continue;
+
+    if (!conect.has(serial)) conect.set(serial, new Set());
+    if (!conect.has(partner)) conect.set(partner, new Set());
+    conect.get(serial)!.add(partner);
+    conect.get(partner)!.add(serial);
+  }
+}
+
+/**
+ * Parse a LINK (or Refmac LINKR) record into its two partners
+ * Links to symmetry mates are skipped: the partner atom in the file is not the bonded copy
+ */
+function parseLinkLine(line: string): [ConnectionPartner, ConnectionPartner] | null {
+  // COLUMNS 13-16 name, 17 altLoc, 18-20 resName, 21-22 chainID, 23-26 resSeq, 27 iCode (43-57 for partner 2),
+  // 60-65 sym1, 67-72 sym2
+  const partner = (offset: number): ConnectionPartner => ({
+    atomName: line.substring(offset + 12, offset + 16).trim(),
+    altLoc: line.substring(offset + 16, offset + 17).trim(),
+    resn: line.substring(offset + 17, offset + 20).trim(),
+    chain: line.substring(offset + 20, offset + 22).trim(),
+    resi: decodeHybrid36(4, line.substring(offset + 22, offset + 26)),
+    iCode: line.substring(offset + 26, offset + 27).trim(),
+  });
+
+  if (line.startsWith('LINK  ')) {
+    const symmetry = [line.substring(59, 65).trim(), line.substring(66, 72).trim()];
+    if (symmetry.some(op => op !== '' && op !== '1555')) return null;
+  }
+
+  const partners: [ConnectionPartner, ConnectionPartner] = [partner(0), partner(30)];
+  return partners.every(p => p.atomName && !isNaN(p.resi)) ? partners : null;
+}
+
+/**
+ * Atoms of one model, split by role
+ */
+export interface ParsedModel {
+  model: number;         // MODEL serial (1 when the file has no MODEL records)
   proteinAtoms: Atom[];
   ligandAtoms: Atom[];
   allAtoms: Atom[];
-} {
-  const lines = pdbContent.split('\n');
+  hydrogenAtoms: Atom[];
+  plddtSource?: ModelConfidence['source'];  // Set when atoms carry pLDDT
+  pae?: PaeData;                            // Pairwise confidence stored in the file (ModelCIF)
+}
+
+/**
+ * Build one model from its atom records
+ * Resolves alternate locations, attaches CONECT bonds and LINK/struct_conn connections (named by
+ * residue and atom) and splits atoms by role
+ */
+export function buildModel(
+  model: number,
+  atoms: Atom[],
+  conect: Map<number, Set<number>>,
+  links: [ConnectionPartner, ConnectionPartner][] = []
+): ParsedModel {
   const proteinAtoms: Atom[] = [];
   const ligandAtoms: Atom[] = [];
   const allAtoms: Atom[] = [];
+  const hydrogenAtoms: Atom[] = [];
 
   // Track which altLoc we've seen for each atom position
   const atomPositions = new Map<string, Atom>();
 
-  for (const line of lines) {
-    const atom = parseAtomLine(line);
-    if (!atom) continue;
-
-    // Position key: chain + resi + resn + atomName
-    const posKey = `${atom.chain}:${atom.resi}:${atom.resn}:${atom.atomName}`;
+  for (const atom of atoms) {
+    // Position key: residue + atomName
+    const posKey = `${residueKey(atom)}:${atom.atomName}`;
 
     // Handle alternate locations: prefer empty or 'A'
     const existing = atomPositions.get(posKey);
@@ -208,39 +240,161 @@ export function parsePDB(pdbContent: string): {
     }
   }
 
+  // Attach CONECT bonds to the atoms that were kept
+  if (conect.size > 0) {
+    const bySerial = new Map<number, Atom>();
+    for (const atom of atomPositions.values()) {
+      bySerial.set(atom.serial, atom);
+    }
+    for (const [serial, partners] of conect) {
+      const atom = bySerial.get(serial);
+      if (!atom) continue;
+      atom.conect = Array.from(partners).filter(partner => bySerial.has(partner));
+    }
+  }
+
+  // Attach links to whichever alternate location was kept
+  for (const [first, second] of links) {
+    const a = atomPositions.get(`${residueKey(first)}:${first.atomName}`);
+    const b = atomPositions.get(`${residueKey(second)}:${second.atomName}`);
+    if (!a || !b || a === b) continue;
+    if (!a.conect?.includes(b.serial)) a.conect = [...(a.conect ?? []), b.serial];
+    if (!b.conect?.includes(a.serial)) b.conect = [...(b.conect ?? []), a.serial];
+  }
+
   // Categorize atoms
   for (const atom of atomPositions.values()) {
-    allAtoms.push(atom);
+    if (atom.element === 'H' || atom.element === 'D') {
+      hydrogenAtoms.push(atom);
+    } else {
+      allAtoms.push(atom);
+    }
+  }
 
-    if (atom.hetflag) {
-      // HETATM - check if it's a ligand (not excluded)
-      if (!EXCLUDED_RESIDUES.has(atom.resn.toUpperCase())) {
-        ligandAtoms.push(atom);
-      } else {
-        // Water and ions are treated as protein context for spatial queries
-        proteinAtoms.push(atom);
-      }
+  const receptorContext = findReceptorContextAtoms(allAtoms);
+  for (const atom of allAtoms) {
+    // HETATM - a ligand unless water, an ion or a modified nucleotide of a DNA/RNA chain
+    if (atom.hetflag && !receptorContext.has(atom) && !isNucleotide(atom.resn)) {
+      ligandAtoms.push(atom);
     } else {
-      // ATOM records are always protein
+      // ATOM records are always protein; water and ions are protein context for spatial queries
       proteinAtoms.push(atom);
     }
   }
 
   return {
+    model,
     proteinAtoms,
     ligandAtoms,
     allAtoms,
+    hydrogenAtoms,
   };
 }
 
 /**
- * Group ligand atoms by (chain, resi, resn) to identify unique ligands
+ * Parse every model of a PDB file (NMR ensembles, MD snapshots, docking poses)
+ * Atoms are split at MODEL/ENDMDL records; CONECT and LINK records apply to all models
+ * Always returns at least one model
+ */
+export function parsePDBModels(pdbContent: string): ParsedModel[] {
+  const lines = pdbContent.split('\n');
+  const modelAtoms: { model: number; atoms: Atom[] }[] = [];
+  const conect = new Map<number, Set<number>>();
+  const links: [ConnectionPartner, ConnectionPartner][] = [];
+  let current: { model: number; atoms: Atom[] } | null = null;
+  let predicted = false;
+
+  for (const line of lines) {
+    if (/^(HEADER|TITLE |COMPND|EXPDTA|REMARK)/.test(line) && PREDICTED_MODEL_PATTERN.test(line)) {
+      predicted = true;
+      continue;
+    }
+
+    if (line.startsWith('MODEL')) {
+      const model = parseInt(line.substring(10, 14).trim());
+      current = { model: isNaN(model) ? modelAtoms.length + 1 : model, atoms: [] };
+      modelAtoms.push(current);
+      continue;
+    }
+
+    if (line.startsWith('ENDMDL')) {
+      current = null;
+      continue;
+    }
+
+    if (line.startsWith('CONECT')) {
+      parseConectLine(line, conect);
+      continue;
+    }
+
+    if (line.startsWith('LINK')) {
+      const link = parseLinkLine(line);
+      if (link) links.push(link);
+      continue;
+    }
+
+    const atom = parseAtomLine(line);
+    if (!atom) continue;
+
+    // Atoms outside MODEL blocks belong to the implicit first model
+    if (!current) {
+      current = { model: modelAtoms.length + 1, atoms: [] };
+      modelAtoms.push(current);
+    }
+    current.atoms.push(atom);
+  }
+
+  const models = modelAtoms.filter(entry => entry.atoms.length > 0);
+  if (models.length === 0) {
+    models.push({ model: 1, atoms: [] });
+  }
+
+  // Structure predictors write per-residue pLDDT into the B-factor column
+  if (predicted) {
+    for (const entry of models) {
+      for (const atom of entry.atoms) atom.plddt = atom.bFactor;
+    }
+  }
+
+  return models.map(entry => {
+    const parsed = buildModel(entry.model, entry.atoms, conect, links);
+    if (predicted) parsed.plddtSource = 'bfactor';
+    return parsed;
+  });
+}
+
+/**
+ * Parse complete PDB file content (first model only)
+ * Returns protein atoms (ATOM records) and ligand atoms (HETATM records, filtered)
+ * Hydrogens (H/D) are returned separately and never mixed into the heavy-atom lists
+ * CONECT records are attached to the atoms as Atom.conect
+ */
+export function parsePDB(pdbContent: string): ParsedModel {
+  return parsePDBModels(pdbContent)[0];
+}
+
+/**
+ * Residue key (chain:resi:iCode:resn) used to group atoms into residues
+ */
+export function residueKey(atom: Pick<Atom, 'chain' | 'resi' | 'iCode' | 'resn'>): string {
+  return `${atom.chain}:${atom.resi}:${atom.iCode}:${atom.resn}`;
+}
+
+/**
+ * Residue label for interaction records, e.g. "316 A" or "100A H"
+ */
+export function residueLabel(atom: Pick<Atom, 'chain' | 'resi' | 'iCode'>): string {
+  return `${atom.resi}${atom.iCode} ${atom.chain}`;
+}
+
+/**
+ * Group ligand atoms by (chain, resi, iCode, resn) to identify unique ligands
  */
 export function groupLigands(ligandAtoms: Atom[]): Map<string, Atom[]> {
   const ligands = new Map<string, Atom[]>();
 
   for (const atom of ligandAtoms) {
-    const key = `${atom.chain}:${atom.resi}:${atom.resn}`;
+    const key = residueKey(atom);
     if (!ligands.has(key)) {
       ligands.set(key, []);
     }
@@ -250,6 +404,23 @@ export function groupLigands(ligandAtoms: Atom[]): Map<string, Atom[]> {
   return ligands;
 }
 
+/**
+ * HETATM atoms of water and ion residues (see classifyLigand)
+ * Classified per residue, since ion names only apply to single-atom residues
+ */
+export function findReceptorContextAtoms(atoms: Atom[]): Set<Atom> {
+  const context = new Set<Atom>();
+  const hetAtoms = atoms.filter(atom => atom.hetflag && !isNucleotide(atom.resn));
+
+  for (const residueAtoms of groupLigands(hetAtoms).values()) {
+    if (isReceptorContext(classifyLigand(residueAtoms[0].resn, residueAtoms))) {
+      residueAtoms.forEach(atom => context.add(atom));
+    }
+  }
+
+  return context;
+}
+
 /**
  * Calculate Euclidean distance between two atoms
  */
@@ -0,0 +1,252 @@
+/**
+ * Ring perception
+ * Finds the smallest set of smallest rings in ligands and canonical aromatic rings in residues
+ * (aromatic side chains and nucleotide bases)
+ */
+
+import { Atom } from '../types/interaction';
+import { distance, residueKey } from './pdbParser';
+import { inferBonds } from './bondPerception';
+import { Vec3, centroid, cross, dot, normalize, subtract } from './geometry';
+import { NUCLEOTIDE_BASE_RINGS, getNucleotideTemplate } from './nucleotides';
+
+// Rings larger than this are macrocycles, not interaction-relevant ring systems
+const MAX_RING_SIZE = 8;
+
+// Maximum deviation (Å) of a ring atom from the mean ring plane for aromatic rings
+const MAX_PLANE_DEVIATION = 0.15;
+
+// Maximum mean ring bond length (Å) for aromatic rings (aromatic C-C ≈ 1.39, single C-C ≈ 1.54)
+const MAX_AROMATIC_BOND_LENGTH = 1.45;
+
+/**
+ * A ring with its geometric descriptors
+ * Atoms are ordered along the cycle
+ */
+export interface Ring {
+  atoms: Atom[];
+  center: Vec3;
+  normal: Vec3;
+  aromatic: boolean;
+}
+
+/**
+ * Aromatic ring atom names for standard residues
+ */
+export const AROMATIC_RESIDUE_RINGS: Record<string, string[][]> = {
+  PHE: [['CG', 'CD1', 'CE1', 'CZ', 'CE2', 'CD2']],
+  TYR: [['CG', 'CD1', 'CE1', 'CZ', 'CE2', 'CD2']],
+  TRP: [
+    ['CG', 'CD1', 'NE1', 'CE2', 'CD2'],
+    ['CE2', 'CD2', 'CE3', 'CZ3', 'CH2', 'CZ2'],
+  ],
+  HIS: [['CG', 'ND1', 'CE1', 'NE2', 'CD2']],
+};
+
+/**
+ * Aromatic ring atom names for a residue: side chain rings, or base rings for nucleotides
+ */
+function residueRings(resn: string): string[][] | undefined {
+  const template = getNucleotideTemplate(resn);
+  return AROMATIC_RESIDUE_RINGS[resn.toUpperCase()] ?? (template && NUCLEOTIDE_BASE_RINGS[template.base]);
+}
+
+/**
+ * Ring plane normal using Newell's method over the ordered ring atoms
+ */
+function ringNormal(atoms: Atom[], center: Vec3): Vec3 {
+  let normal = { x: 0, y: 0, z: 0 };
+  for (let i = 0; i < atoms.length; i++) {
+    const c = cross(subtract(atoms[i], center), subtract(atoms[(i + 1) % atoms.length], center));
+    normal = { x: normal.x + c.x, y: normal.y + c.y, z: normal.z + c.z };
+  }
+  return normalize(normal);
+}
+
+/**
+ * Build a ring from ordered atoms
+ */
+function createRing(atoms: Atom[], aromatic: boolean): Ring {
+  const center = centroid(atoms);
+  return {
+    atoms,
+    center,
+    normal: ringNormal(atoms, center),
+    aromatic,
+  };
+}
+
+/**
+ * Check planarity and bond lengths to decide whether a ligand ring is aromatic
+ */
+function isAromaticRing(ring: Ring): boolean {
+  if (ring.atoms.length < 5 || ring.atoms.length > 6) return false;
+
+  for (const atom of ring.atoms) {
+    if (Math.abs(dot(subtract(atom, ring.center), ring.normal)) > MAX_PLANE_DEVIATION) {
+      return false;
+    }
+  }
+
+  // Bonds to sulfur are long even in aromatic rings (thiophene C-S ≈ 1.71)
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i < ring.atoms.length; i++) {
+    const a = ring.atoms[i];
+    const b = ring.atoms[(i + 1) % ring.atoms.length];
+    if (a.element === 'S' || b.element === 'S') continue;
+    total += distance(a, b);
+    count++;
+  }
+
+  return count === 0 || total / count <= MAX_AROMATIC_BOND_LENGTH;
+}
+
+/**
+ * Shortest path from start to end that does not use the direct start-end bond
+ * Paths longer than the largest ring of interest are not explored
+ */
+function shortestPathAvoidingBond(start: Atom, end: Atom, adjacency: Map<number, Atom[]>): Atom[] | null {
+  const previous = new Map<number, Atom>();
+  const depth = new Map<number, number>([[start.serial, 0]]);
+  const queue = [start];
+
+  for (let head = 0; head < queue.length; head++) {
+    const atom = queue[head];
+    const atomDepth = depth.get(atom.serial)!;
+    if (atomDepth >= MAX_RING_SIZE - 1) continue;
+
+    for (const neighbor of adjacency.get(atom.serial) ?? []) {
+      if (atom === start && neighbor === end) continue;
+      if (depth.has(neighbor.serial)) continue;
+
+      depth.set(neighbor.serial, atomDepth + 1);
+      previous.set(neighbor.serial, atom);
+
+      if (neighbor === end) {
+        const path = [end];
+        let current = end;
+        while (current !== start) {
+          current = previous.get(current.serial)!;
+          path.unshift(current);
+        }
+        return path;
+      }
+      queue.push(neighbor);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the smallest set of smallest rings (SSSR) in a molecular graph
+ * Candidate cycles come from the shortest cycle through each bond; an independent
+ * subset is selected by Gaussian elimination over GF(2) on bond incidence vectors
+ */
+export function findSmallestRings(atoms: Atom[], adjacency: Map<number, Atom[]>): Atom[][] {
+  // Index bonds
+  const bondIndex = new Map<string, number>();
+  const bondKey = (a: Atom, b: Atom) =>
+    a.serial < b.serial ? `${a.serial}-${b.serial}` : `${b.serial}-${a.serial}`;
+
+  for (const atom of atoms) {
+    for (const neighbor of adjacency.get(atom.serial) ?? []) {
+      const key = bondKey(atom, neighbor);
+      if (!bondIndex.has(key)) {
+        bondIndex.set(key, bondIndex.size);
+      }
+    }
+  }
+
+  // Collect candidate cycles, one per bond, deduplicated by atom set
+  const candidates = new Map<string, Atom[]>();
+  for (const atom of atoms) {
+    for (const neighbor of adjacency.get(atom.serial) ?? []) {
+      if (atom.serial > neighbor.serial) continue;
+      const path = shortestPathAvoidingBond(atom, neighbor, adjacency);
+      if (!path || path.length > MAX_RING_SIZE) continue;
+
+      const key = path.map(a => a.serial).sort((a, b) => a - b).join(',');
+      if (!candidates.has(key)) {
+        candidates.set(key, path);
+      }
+    }
+  }
+
+  const sorted = Array.from(candidates.values()).sort((a, b) => a.length - b.length);
+
+  // Keep rings whose bond vectors are linearly independent
+  const pivots = new Map<number, Uint8Array>();
+  const rings: Atom[][] = [];
+
+  for (const ring of sorted) {
+    const vector = new Uint8Array(bondIndex.size);
+    for (let i = 0; i < ring.length; i++) {
+      vector[bondIndex.get(bondKey(ring[i], ring[(i + 1) % ring.length]))!] = 1;
+    }
+
+    let pivot = -1;
+    for (let i = 0; i < vector.length; i++) {
+      if (!vector[i]) continue;
+      const basis = pivots.get(i);
+      if (basis) {
+        for (let j = i; j < vector.length; j++) {
+          vector[j] ^= basis[j];
+        }
+      } else if (pivot === -1) {
+        pivot = i;
+      }
+    }
+
+    if (pivot !== -1) {
+      pivots.set(pivot, vector);
+      rings.push(ring);
+    }
+  }
+
+  return rings;
+}
+
+/**
+ * Perceive rings in a ligand from its inferred connectivity
+ */
+export function getLigandRings(ligandAtoms: Atom[]): Ring[] {
+  const adjacency = inferBonds(ligandAtoms);
+  return findSmallestRings(ligandAtoms, adjacency).map(atoms => {
+    const ring = createRing(atoms, false);
+    ring.aromatic = isAromaticRing(ring);
+    return ring;
+  });
+}
+
+/**
+ * Build aromatic rings for PHE/TYR/TRP/HIS residues and nucleotide bases
+ * A ring is only built when all of its atoms are present
+ */
+export function getProteinRings(atoms: Atom[]): Ring[] {
+  const byResidue = new Map<string, Map<string, Atom>>();
+
+  for (const atom of atoms) {
+    if (!residueRings(atom.resn)) continue;
+
+    const key = residueKey(atom);
+    if (!byResidue.has(key)) {
+      byResidue.set(key, new Map());
+    }
+    byResidue.get(key)!.set(atom.atomName.toUpperCase(), atom);
+  }
+
+  const rings: Ring[] = [];
+  for (const residueAtoms of byResidue.values()) {
+    const resn = residueAtoms.values().next().value!.resn;
+
+    for (const names of residueRings(resn)!) {
+      const ringAtoms = names.map(name => residueAtoms.get(name));
+      if (ringAtoms.some(atom => !atom)) continue;
+      rings.push(createRing(ringAtoms as Atom[], true));
+    }
+  }
+
+  return rings;
+}
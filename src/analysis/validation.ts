@@ -0,0 +1,267 @@
+/**
+ * Structure validation
+ * Checks the first model for steric clashes, incomplete residues, chain breaks,
+ * zero-occupancy atoms and non-standard polymer residues
+ */
+
+import {
+  Atom,
+  ChainBreak,
+  Clash,
+  IncompleteResidue,
+  NonStandardResidue,
+  ValidationReport,
+  ZeroOccupancyResidue,
+} from '../types/interaction';
+import { METAL_ELEMENTS, ParsedModel, distance, residueKey, residueLabel } from './pdbParser';
+import { buildSpatialGrid, findNeighbors } from './spatialGrid';
+import { isBonded } from './bondPerception';
+import { isWater } from './ligandClasses';
+
+// Van der Waals radii in Å (Bondi 1964)
+export const VDW_RADII: Record<string, number> = {
+  C: 1.70, N: 1.55, O: 1.52, S: 1.80, P: 1.80, Se: 1.90,
+  F: 1.47, Cl: 1.75, Br: 1.85, I: 1.98,
+};
+
+// Overlap of van der Waals spheres counted as a clash (MolProbity's serious-clash cutoff)
+const CLASH_OVERLAP = 0.4;
+
+// Extra overlap tolerated between N/O atoms, which may be hydrogen bonded
+const HBOND_ALLOWANCE = 0.4;
+
+// Longest C-N (peptide) or O3'-P (phosphodiester) link between consecutive residues
+const MAX_LINK_DISTANCE = 2.0;
+
+// Longest CA-CA distance between consecutive amino acids when C or N is missing
+const MAX_CA_CA_DISTANCE = 4.2;
+
+// Heavy side-chain atoms of the standard amino acids (backbone N, CA, C, O is shared)
+const SIDE_CHAIN_TEMPLATES: Record<string, string[]> = {
+  ALA: ['CB'],
+  ARG: ['CB', 'CG', 'CD', 'NE', 'CZ', 'NH1', 'NH2'],
+  ASN: ['CB', 'CG', 'OD1', 'ND2'],
+  ASP: ['CB', 'CG', 'OD1', 'OD2'],
+  CYS: ['CB', 'SG'],
+  GLN: ['CB', 'CG', 'CD', 'OE1', 'NE2'],
+  GLU: ['CB', 'CG', 'CD', 'OE1', 'OE2'],
+  GLY: [],
+  HIS: ['CB', 'CG', 'ND1', 'CD2', 'CE1', 'NE2'],
+  ILE: ['CB', 'CG1', 'CG2', 'CD1'],
+  LEU: ['CB', 'CG', 'CD1', 'CD2'],
+  LYS: ['CB', 'CG', 'CD', 'CE', 'NZ'],
+  MET: ['CB', 'CG', 'SD', 'CE'],
+  PHE: ['CB', 'CG', 'CD1', 'CD2', 'CE1', 'CE2', 'CZ'],
+  PRO: ['CB', 'CG', 'CD'],
+  SER: ['CB', 'OG'],
+  THR: ['CB', 'OG1', 'CG2'],
+  TRP: ['CB', 'CG', 'CD1', 'CD2', 'NE1', 'CE2', 'CE3', 'CZ2', 'CZ3', 'CH2'],
+  TYR: ['CB', 'CG', 'CD1', 'CD2', 'CE1', 'CE2', 'CZ', 'OH'],
+  VAL: ['CB', 'CG1', 'CG2'],
+};
+
+const BACKBONE_ATOMS = ['N', 'CA', 'C', 'O'];
+
+// Force-field names for protonation states of standard amino acids
+const RESIDUE_ALIASES: Record<string, string> = {
+  HID: 'HIS', HIE: 'HIS', HIP: 'HIS', HSD: 'HIS', HSE: 'HIS', HSP: 'HIS',
+  CYX: 'CYS', CYM: 'CYS', ASH: 'ASP', GLH: 'GLU', LYN: 'LYS',
+};
+
+const STANDARD_NUCLEOTIDES = new Set(['A', 'C', 'G', 'U', 'I', 'DA', 'DC', 'DG', 'DT', 'DU', 'DI']);
+
+interface Residue {
+  key: string;
+  atoms: Map<string, Atom>;
+  first: Atom;
+}
+
+const atomLabel = (atom: Atom) => `${atom.resn}${atom.resi}${atom.iCode}${atom.chain}:${atom.atomName}`;
+
+/**
+ * Group atoms into residues in file order
+ */
+function groupResidues(atoms: Atom[]): Residue[] {
+  const residues = new Map<string, Residue>();
+  for (const atom of atoms) {
+    const key = residueKey(atom);
+    let residue = residues.get(key);
+    if (!residue) {
+      residue = { key, atoms: new Map(), first: atom };
+      residues.set(key, residue);
+    }
+    residue.atoms.set(atom.atomName, atom);
+  }
+  return Array.from(residues.values());
+}
+
+/**
+ * Polymer residues are ATOM records, or HETATM residues with an amino acid or nucleotide backbone
+ * (modified residues such as MSE)
+ */
+function isPolymerResidue(residue: Residue): boolean {
+  if (isWater(residue.first.resn)) return false;
+  if (!residue.first.hetflag) return true;
+  const has = (name: string) => residue.atoms.has(name);
+  return (has('N') && has('CA') && has('C')) || (has('P') && has('O3\'') && has('C1\''));
+}
+
+/**
+ * Find pairs of non-bonded heavy atoms whose van der Waals spheres overlap
+ * Pairs within a residue, between sequence neighbours, bonded pairs and pairs sharing a bonded
+ * atom (1-3) are excluded, as are metal ions
+ */
+function findClashes(atoms: Atom[], polymerIndex: Map<string, { chain: string; index: number }>): Clash[] {
+  const candidates = atoms.filter(atom => !METAL_ELEMENTS.has(atom.element));
+  const grid = buildSpatialGrid(candidates, 4.0);
+  const order = new Map<Atom, number>();
+  candidates.forEach((atom, i) => order.set(atom, i));
+
+  const radius = (atom: Atom) => VDW_RADII[atom.element] ?? 1.70;
+  const maxDistance = 2 * Math.max(...Object.values(VDW_RADII)) - CLASH_OVERLAP;
+
+  const bondedCache = new Map<Atom, Set<Atom>>();
+  const bonded = (atom: Atom) => {
+    let partners = bondedCache.get(atom);
+    if (!partners) {
+      partners = new Set(findNeighbors(grid, atom, 2.5).filter(other => isBonded(atom, other)));
+      bondedCache.set(atom, partners);
+    }
+    return partners;
+  };
+
+  const isExcluded = (a: Atom, b: Atom) => {
+    const keyA = residueKey(a);
+    const keyB = residueKey(b);
+    if (keyA === keyB) return true;
+
+    const posA = polymerIndex.get(keyA);
+    const posB = polymerIndex.get(keyB);
+    if (posA && posB && posA.chain === posB.chain && Math.abs(posA.index - posB.index) <= 1) return true;
+
+    if (a.conect?.includes(b.serial) || isBonded(a, b)) return true;
+    const partnersB = bonded(b);
+    return Array.from(bonded(a)).some(partner => partnersB.has(partner));
+  };
+
+  const clashes: Clash[] = [];
+  for (const a of candidates) {
+    for (const b of findNeighbors(grid, a, maxDistance)) {
+      if (order.get(b)! <= order.get(a)!) continue;
+
+      const dist = distance(a, b);
+      const overlap = radius(a) + radius(b) - dist;
+      const polar = (a.element === 'N' || a.element === 'O') && (b.element === 'N' || b.element === 'O');
+      if (overlap < CLASH_OVERLAP + (polar ? HBOND_ALLOWANCE : 0)) continue;
+      if (isExcluded(a, b)) continue;
+
+      clashes.push({
+        atom1: atomLabel(a),
+        atom2: atomLabel(b),
+        atom1Serial: a.serial,
+        atom2Serial: b.serial,
+        distance: Number(dist.toFixed(2)),
+        overlap: Number(overlap.toFixed(2)),
+      });
+    }
+  }
+
+  return clashes.sort((x, y) => y.overlap - x.overlap);
+}
+
+/**
+ * Distance spanning the link between two consecutive polymer residues, or null when
+ * neither the backbone link atoms nor both CA atoms are present
+ */
+function linkDistance(previous: Residue, next: Residue): { distance: number; maxDistance: number } | null {
+  const c = previous.atoms.get('C');
+  const n = next.atoms.get('N');
+  if (c && n) return { distance: distance(c, n), maxDistance: MAX_LINK_DISTANCE };
+
+  const o3 = previous.atoms.get('O3\'');
+  const p = next.atoms.get('P');
+  if (o3 && p) return { distance: distance(o3, p), maxDistance: MAX_LINK_DISTANCE };
+
+  const ca1 = previous.atoms.get('CA');
+  const ca2 = next.atoms.get('CA');
+  if (ca1 && ca2) return { distance: distance(ca1, ca2), maxDistance: MAX_CA_CA_DISTANCE };
+
+  return null;
+}
+
+/**
+ * Validate the heavy atoms of one model
+ */
+export function validateStructure(model: ParsedModel): ValidationReport {
+  const residues = groupResidues(model.allAtoms);
+  const polymer = residues.filter(isPolymerResidue);
+
+  // Position of each polymer residue within its chain, in file order
+  const polymerIndex = new Map<string, { chain: string; index: number }>();
+  const chainLength = new Map<string, number>();
+  for (const residue of polymer) {
+    const chain = residue.first.chain;
+    const index = chainLength.get(chain) ?? 0;
+    polymerIndex.set(residue.key, { chain, index });
+    chainLength.set(chain, index + 1);
+  }
+
+  // Chain breaks between consecutive residues of the same chain
+  const chainBreaks: ChainBreak[] = [];
+  for (let i = 1; i < polymer.length; i++) {
+    const previous = polymer[i - 1];
+    const next = polymer[i];
+    if (previous.first.chain !== next.first.chain) continue;
+
+    const link = linkDistance(previous, next);
+    if (link && link.distance > link.maxDistance) {
+      chainBreaks.push({
+        chain: next.first.chain,
+        from: residueLabel(previous.first),
+        to: residueLabel(next.first),
+        distance: Number(link.distance.toFixed(2)),
+      });
+    }
+  }
+
+  // Standard amino acids missing template atoms
+  const incompleteResidues: IncompleteResidue[] = [];
+  const nonStandard = new Map<string, string[]>();
+  for (const residue of polymer) {
+    const resn = residue.first.resn.toUpperCase();
+    const template = SIDE_CHAIN_TEMPLATES[RESIDUE_ALIASES[resn] ?? resn];
+
+    if (template) {
+      const missingAtoms = [...BACKBONE_ATOMS, ...template].filter(name => !residue.atoms.has(name));
+      if (missingAtoms.length > 0) {
+        incompleteResidues.push({ residue: residueLabel(residue.first), resn: residue.first.resn, missingAtoms });
+      }
+    } else if (!STANDARD_NUCLEOTIDES.has(resn)) {
+      if (!nonStandard.has(resn)) nonStandard.set(resn, []);
+      nonStandard.get(resn)!.push(residueLabel(residue.first));
+    }
+  }
+
+  const zeroOccupancy: ZeroOccupancyResidue[] = [];
+  for (const residue of residues) {
+    const atoms = Array.from(residue.atoms.values()).filter(atom => atom.occupancy === 0);
+    if (atoms.length > 0) {
+      zeroOccupancy.push({
+        residue: residueLabel(residue.first),
+        resn: residue.first.resn,
+        atoms: atoms.map(atom => atom.atomName),
+      });
+    }
+  }
+
+  const nonStandardResidues: NonStandardResidue[] = Array.from(nonStandard.entries())
+    .map(([resn, labels]) => ({ resn, residues: labels }));
+
+  return {
+    clashes: findClashes(model.allAtoms, polymerIndex),
+    incompleteResidues,
+    chainBreaks,
+    zeroOccupancy,
+    nonStandardResidues,
+  };
+}
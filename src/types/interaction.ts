@@ -7,31 +7,69 @@ export interface Atom {
   serial: number;
   atomName: string;
   resn: string;      // Residue name (3-letter code)
-  chain: string;     // Chain identifier
+  chain: string;     // Chain identifier (may be wider than one character)
   resi: number;      // Residue sequence number
+  iCode: string;     // Insertion code ('' when absent)
   x: number;
   y: number;
   z: number;
   element: string;   // Chemical element symbol
   hetflag: boolean;  // true for HETATM, false for ATOM
   altLoc: string;    // Alternate location indicator
+  formalCharge?: number;  // Formal charge (PDB columns 79-80 or mmCIF pdbx_formal_charge)
+  occupancy?: number;     // Occupancy (PDB columns 55-60 or mmCIF occupancy)
+  bFactor?: number;       // Temperature factor (PDB columns 61-66 or mmCIF B_iso_or_equiv)
+  plddt?: number;         // Predicted local confidence (0-100), predicted models only
+  labelAsymId?: string;   // mmCIF label_asym_id (mmCIF input only)
+  labelSeqId?: number;    // mmCIF label_seq_id (polymer residues in mmCIF input only)
+  hydrogens?: Atom[];  // Attached hydrogens (only when the input has explicit H)
+  conect?: number[];   // Bonded atom serials from CONECT and LINK records (struct_conn for mmCIF)
+  chemistry?: AtomChemistry;  // Perceived chemistry (ligand atoms only)
+}
+
+// Ligand atom chemistry derived from connectivity and geometry
+export interface AtomChemistry {
+  hybridization: 'sp' | 'sp2' | 'sp3';
+  aromatic: boolean;
+  hydrogenCount: number;       // Explicit hydrogens, or implied by valence
+  functionalGroups: string[];  // e.g. 'hydroxyl', 'amide', 'carboxylate'
 }
 
 // Reference to a specific residue
 export interface ResidueRef {
   chain: string;
   resi: number;
+  iCode: string;
   resn: string;
 }
 
-// Ligand definition (grouped by chain+resi+resn)
+// Ligand class from the component dictionary (see ligandClasses.ts)
+export type LigandClass = 'ion' | 'water' | 'additive' | 'glycan' | 'cofactor' | 'druglike';
+
+// Ligand definition (grouped by chain+resi+iCode+resn)
 export interface Ligand {
   siteId: number;
   chain: string;
   resi: number;
+  iCode: string;
   resn: string;
   atoms: Atom[];
   type: 'SMALLMOLECULE' | 'ION' | 'WATER';
+  ligandClass: LigandClass;
+  residues?: ResidueRef[];  // Component residues of a multi-residue ligand (resn joins their names, e.g. "NAG-NAG-MAN")
+  covalentBonds?: CovalentBond[];  // Set when the ligand is covalently bound to the receptor
+}
+
+// Covalent bond between a ligand atom and a receptor residue (warhead attachment)
+export interface CovalentBond {
+  residue: string;      // Format: "145 A"
+  aa: string;
+  distance: number;     // Bond length (Å)
+  ligandAtomSerial: number;
+  proteinAtomSerial: number;
+  ligandAtomName: string;
+  proteinAtomName: string;
+  source: 'record' | 'distance';  // LINK/struct_conn/CONECT record, or covalent radii
 }
 
 // Binding site containing a ligand and its pocket residues
@@ -47,23 +85,34 @@ export interface AnalysisParams {
   bindingSiteDistance: number;    // Default: 7.5 Å
   hydrophobicMaxDist: number;     // Default: 4.0 Å
   hbondMaxDist: number;           // Default: 3.5 Å
+  hbondMinAngle: number;          // Default: 100° (D-H···A, used when hydrogens are present)
+  addHydrogens: boolean;          // Default: false (place polar hydrogens when the input has none)
   saltBridgeMaxDist: number;      // Default: 5.5 Å
   waterBridgeMaxDist: number;     // Default: 4.1 Å
   piStackingMaxDist: number;      // Default: 6.0 Å
   piCationMaxDist: number;        // Default: 6.0 Å
   halogenBondMaxDist: number;     // Default: 4.0 Å
+  halogenBondIncludeFluorine: boolean;  // Default: false (fluorine is a poor halogen bond donor)
+  bFactorIsPlddt: boolean;        // Default: false (read B-factors as pLDDT; detected automatically for predicted models)
+  siteClasses: LigandClass[];     // Default: cofactor, druglike (ligand classes analyzed as binding sites)
+  mergeBondedLigands: boolean;    // Default: true (HETATM residues joined by a covalent bond form one ligand)
+  ligandGroups: string[];         // Default: [] (manual ligand groups, each e.g. "A:401 A:402"; overrides merging)
 }
 
 // Hydrophobic interaction record
 export interface HydrophobicInteraction {
   index: number;
-  residue: string;      // Format: "316 A"
-  aa: string;           // Three-letter amino acid code
+  residue: string;      // Format: "316 A", or "100A H" with an insertion code
+  aa: string;           // Residue name (amino acid, or nucleotide for DNA/RNA receptors)
   distance: number;     // Minimum distance in Å
   ligandAtomSerial: number;
   proteinAtomSerial: number;
   ligandAtomName: string;
   proteinAtomName: string;
+  occupancy?: number;  // Fraction of models containing this interaction (multi-model input only)
+  plddt?: number;      // Lowest pLDDT of the atoms involved (predicted models only)
+  pae?: number;        // Highest PAE (Å) between the ligand and residues of other chains (with PAE input only)
+  partnerResidue?: string;  // Partner chain residue in the ligand role (interface analysis only)
 }
 
 // Hydrogen bond interaction record
@@ -71,15 +120,19 @@ export interface HbondInteraction {
   index: number;
   residue: string;
   aa: string;
-  distanceHA: number;      // Distance H-A (Å) - can be approximate or empty
+  distanceHA: number;      // Distance H-A (Å) - 0 when the donor has no explicit hydrogens
   distanceDA: number;      // Distance D-A (Å)
-  donorAngle: number;      // D-H-A angle (degrees) - can be empty for MVP
+  donorAngle: number;      // D-H-A angle (degrees) - 0 when the donor has no explicit hydrogens
   proteinDonor: boolean;   // true if protein is donor
   sideChain: boolean;      // true if side chain atom (false for backbone)
   donorAtomSerial: number;
   acceptorAtomSerial: number;
   donorAtomName: string;
   acceptorAtomName: string;
+  occupancy?: number;
+  plddt?: number;
+  pae?: number;
+  partnerResidue?: string;
 }
 
 // Water bridge interaction record
@@ -87,10 +140,11 @@ export interface WaterbridgeInteraction {
   index: number;
   residue: string;
   aa: string;
+  waterResidue: string;    // Water residue ("resi chain")
   distanceAW: number;      // Distance Acceptor-Water (Å)
   distanceDW: number;      // Distance Donor-Water (Å)
-  donorAngle: number;      // D-H-A angle (degrees) - can be empty
-  waterAngle: number;      // Angle at water (degrees) - can be empty
+  donorAngle: number;      // D-H···O(water) angle (degrees) - 0 when the donor has no explicit hydrogens
+  waterAngle: number;      // Acceptor-water-donor angle (omega, degrees)
   proteinDonor: boolean;
   donorAtomSerial: number;
   acceptorAtomSerial: number;
@@ -98,48 +152,105 @@ export interface WaterbridgeInteraction {
   donorAtomName: string;
   acceptorAtomName: string;
   waterAtomName: string;
+  occupancy?: number;
+  plddt?: number;
+  pae?: number;
 }
 
-// Salt bridge interaction record (placeholder for future)
+// Salt bridge interaction record
 export interface SaltbridgeInteraction {
   index: number;
   residue: string;
   aa: string;
-  distance: number;
+  distance: number;          // Centroid-centroid distance (Å)
+  proteinPositive: boolean;  // true if the protein group carries the positive charge
+  ligandGroup: string;       // Charged ligand group (e.g. "Carboxylate")
   ligandAtomSerial: number;
   proteinAtomSerial: number;
+  occupancy?: number;
+  plddt?: number;
+  pae?: number;
+  partnerResidue?: string;
 }
 
-// Pi-stacking interaction (placeholder for future)
+// Pi-stacking interaction record
 export interface PistackingInteraction {
   index: number;
   residue: string;
   aa: string;
-  distance: number;
+  distance: number;        // Ring centroid-centroid distance (Å)
+  angle: number;           // Angle between ring planes (degrees, 0-90)
+  offset: number;          // Lateral offset of the ring centroids (Å)
   type: 'parallel' | 'perpendicular';
-  ligandRingSerial: number;
-  proteinRingSerial: number;
+  ligandRingSerial: number;   // Serial of the first ligand ring atom
+  proteinRingSerial: number;  // Serial of the first protein ring atom
+  occupancy?: number;
+  plddt?: number;
+  pae?: number;
+  partnerResidue?: string;
 }
 
-// Pi-cation interaction (placeholder for future)
+// Pi-cation interaction record
 export interface PicationInteraction {
   index: number;
   residue: string;
   aa: string;
-  distance: number;
+  distance: number;          // Ring centroid to cation distance (Å)
+  angle: number;             // Angle between ring normal and centroid-cation vector (degrees)
+  offset: number;            // Lateral offset of the cation from the ring axis (Å)
+  proteinCharged: boolean;   // true if the cation is on the protein side
+  cationGroup: string;       // Cationic group (e.g. "Ammonium", "ZN")
   ligandAtomSerial: number;
   proteinAtomSerial: number;
+  occupancy?: number;
+  plddt?: number;
+  pae?: number;
 }
 
-// Halogen bond interaction (placeholder for future)
+// Halogen bond interaction record
 export interface HalogenbondInteraction {
   index: number;
   residue: string;
   aa: string;
-  distance: number;
-  donorAngle: number;
+  distance: number;          // Distance X···A (Å)
+  donorAngle: number;        // C-X···A angle (degrees)
+  acceptorAngle: number;     // X···A-Y angle (degrees)
+  halogen: string;           // Halogen element (Cl, Br, I, F)
+  acceptorAtomName: string;
   ligandAtomSerial: number;
   proteinAtomSerial: number;
+  occupancy?: number;
+  plddt?: number;
+  pae?: number;
+}
+
+// Atom coordinating a metal ion
+export interface MetalCoordinatingAtom {
+  serial: number;
+  atomName: string;
+  resn: string;
+  resi: number;
+  iCode: string;
+  chain: string;
+  isLigand: boolean;   // true if the atom belongs to the site's ligand
+  distance: number;    // Metal-atom distance (Å)
+}
+
+// Metal coordination complex record
+export interface MetalComplexInteraction {
+  index: number;
+  residue: string;             // Metal residue, format: "301 A"
+  metal: string;               // Metal residue name (e.g. "ZN")
+  metalAtomSerial: number;
+  coordinationNumber: number;
+  geometry: string;            // Best-fitting ideal geometry (e.g. "tetrahedral")
+  rms: number;                 // RMS angle deviation from the ideal geometry (degrees)
+  ligandCoordinators: number;  // Number of coordinating ligand atoms
+  coordination: string;        // Readable summary, e.g. "HIS94A:NE2 2.05"
+  coordinatingAtoms: MetalCoordinatingAtom[];
+  occupancy?: number;
+  plddt?: number;
+  pae?: number;
 }
 
 // All interactions for a binding site
@@ -153,6 +264,69 @@ export interface SiteInteractions {
   pistacking: PistackingInteraction[];
   pication: PicationInteraction[];
   halogenbond: HalogenbondInteraction[];
+  metal: MetalComplexInteraction[];
+}
+
+// Confidence summary of a predicted model
+export interface ModelConfidence {
+  source: 'modelcif' | 'bfactor';  // ModelCIF ma_qa_metric_local, or B-factors read as pLDDT
+  meanPlddt: number;               // Mean pLDDT over residues of the first model
+  lowPlddtResidues: number;        // Residues below the low-confidence threshold
+  pae: boolean;                    // Whether PAE was available to annotate inter-chain contacts
+}
+
+// Predicted aligned error matrix: matrix[i][j] is the expected error (Å) at residue j when aligned on residue i
+export interface PaeData {
+  matrix: number[][];
+  // Residue of each row (AlphaFold 3 tokens, ModelCIF); without it rows follow polymer residues in file order
+  residues?: Pick<ResidueRef, 'chain' | 'resi'>[];
+}
+
+// Steric clash between two atoms that are not bonded
+export interface Clash {
+  atom1: string;     // Format: "LEU12A:CD1"
+  atom2: string;
+  atom1Serial: number;
+  atom2Serial: number;
+  distance: number;  // Å
+  overlap: number;   // Sum of van der Waals radii minus distance (Å)
+}
+
+// Standard residue missing heavy atoms of its template
+export interface IncompleteResidue {
+  residue: string;         // Format: "316 A"
+  resn: string;
+  missingAtoms: string[];
+}
+
+// Gap in a polymer chain between consecutive residues
+export interface ChainBreak {
+  chain: string;
+  from: string;      // Residue before the break, format: "316 A"
+  to: string;        // Residue after the break
+  distance: number;  // C-N distance (Å), or CA-CA when either residue lacks backbone C/N
+}
+
+// Residue with atoms modeled at zero occupancy
+export interface ZeroOccupancyResidue {
+  residue: string;
+  resn: string;
+  atoms: string[];
+}
+
+// Polymer residue that is not a standard amino acid or nucleotide (e.g. MSE, SEP)
+export interface NonStandardResidue {
+  resn: string;
+  residues: string[];
+}
+
+// Sanity checks of the first model
+export interface ValidationReport {
+  clashes: Clash[];
+  incompleteResidues: IncompleteResidue[];
+  chainBreaks: ChainBreak[];
+  zeroOccupancy: ZeroOccupancyResidue[];
+  nonStandardResidues: NonStandardResidue[];
 }
 
 // Complete analysis result
@@ -166,6 +340,8 @@ export interface AnalysisResult {
   ligands: Ligand[];
   bindingSites: BindingSite[];
   interactions: SiteInteractions[];
+  confidence?: ModelConfidence;  // Predicted models only
+  validation?: ValidationReport;
   stats: {
     totalAtoms: number;
     proteinAtoms: number;
@@ -174,12 +350,71 @@ export interface AnalysisResult {
     totalHydrophobic: number;
     totalHbond: number;
     totalWaterbridge: number;
+    totalSaltbridge: number;
+    totalPistacking: number;
+    totalPication: number;
+    totalHalogenbond: number;
+    totalMetal: number;
+    totalModels: number;   // MODEL blocks analyzed (1 for single-structure files)
     analysisTime: number;  // in milliseconds
   };
 }
 
+// Chains compared in interface analysis; the partner takes the ligand role in the detectors
+export interface ChainGroups {
+  receptor: string[];
+  partner: string[];
+}
+
+// Polymer type of a chain, from its residue names
+export type PolymerType = 'protein' | 'DNA' | 'RNA' | 'other';
+
+// Chain of a structure, for picking interface groups
+export interface StructureChain {
+  chain: string;
+  residueCount: number;  // Residues other than water, first model
+  polymer: PolymerType;
+}
+
+// Interface residue with its contacts and per-residue interaction counts
+export interface InterfaceResidue {
+  residue: string;         // Format: "316 A"
+  resn: string;
+  side: 'receptor' | 'partner';
+  contacts: string[];      // Residues of the other group within the contact distance
+  hydrophobic: number;
+  hbond: number;
+  saltbridge: number;
+  pistacking: number;
+  buriedArea: number;      // Solvent-accessible surface buried by the other group (Å²)
+}
+
+// Result of protein–protein, protein–peptide or protein–DNA/RNA interface analysis (first model)
+export interface InterfaceResult {
+  success: boolean;
+  filename?: string;
+  timestamp: number;
+  params: AnalysisParams;
+  chainGroups: ChainGroups;
+  residues: InterfaceResidue[];
+  hydrophobic: HydrophobicInteraction[];  // residue: receptor side, partnerResidue: partner side
+  hbond: HbondInteraction[];
+  saltbridge: SaltbridgeInteraction[];    // Includes LYS/ARG–phosphate pairs across protein–DNA/RNA interfaces
+  pistacking: PistackingInteraction[];    // Includes aromatic side chain–base stacking
+  stats: {
+    receptorResidues: number;
+    partnerResidues: number;
+    totalHydrophobic: number;
+    totalHbond: number;
+    totalSaltbridge: number;
+    totalPistacking: number;
+    buriedSurfaceArea: number;  // Total over both groups (Å²)
+    analysisTime: number;       // in milliseconds
+  };
+}
+
 // Progress status for worker
-export type AnalysisStatus = 'idle' | 'parsing' | 'building-grid' | 'finding-sites' | 'analyzing-hydrophobic' | 'analyzing-hbond' | 'analyzing-waterbridge' | 'complete' | 'error';
+export type AnalysisStatus = 'idle' | 'parsing' | 'validating' | 'building-grid' | 'finding-sites' | 'analyzing-hydrophobic' | 'analyzing-hbond' | 'analyzing-waterbridge' | 'analyzing-saltbridge' | 'analyzing-pistacking' | 'analyzing-pication' | 'analyzing-halogenbond' | 'analyzing-metal' | 'analyzing-surface' | 'complete' | 'error';
 
 export interface ProgressUpdate {
   status: AnalysisStatus;
@@ -189,16 +424,23 @@ export interface ProgressUpdate {
   totalSites?: number;
 }
 
+// Structure file formats accepted by the analyzer
+export type StructureFormat = 'pdb' | 'mmcif' | 'bcif';
+
 // Worker message types
 export interface WorkerRequest {
-  type: 'analyze';
-  pdbContent: string;
+  type: 'analyze' | 'interface';
+  content: string | ArrayBuffer;  // Text for PDB/mmCIF, bytes for BinaryCIF
+  format: StructureFormat;
   filename?: string;
   params: AnalysisParams;
+  pae?: string;  // Predicted aligned error JSON (AlphaFold / ColabFold format), optional
+  chainGroups?: ChainGroups;  // Required for interface requests
 }
 
 export interface WorkerResponse {
   type: 'progress' | 'result' | 'error';
-  data?: ProgressUpdate | AnalysisResult;
+  data?: ProgressUpdate | AnalysisResult | InterfaceResult;
   error?: string;
+  stack?: string;
 }
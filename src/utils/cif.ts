@@ -0,0 +1,314 @@
+/**
+ * CIF reader and writer
+ * Parses text CIF (mmCIF) and BinaryCIF into data blocks of categories with string columns,
+ * and writes categories back out as text CIF
+ */
+
+import { decodeMsgPack } from 'molstar/lib/mol-io/common/msgpack/decode';
+import { decode } from 'molstar/lib/mol-io/common/binary-cif/decoder';
+import { EncodedFile } from 'molstar/lib/mol-io/common/binary-cif/encoding';
+
+// A category such as atom_site; every column holds rowCount raw values ('.' and '?' mark missing)
+export interface CifCategory {
+  name: string;
+  rowCount: number;
+  fields: Map<string, string[]>;
+}
+
+export interface CifBlock {
+  header: string;
+  categories: Map<string, CifCategory>;
+}
+
+export interface CifFile {
+  blocks: CifBlock[];
+}
+
+/**
+ * True for the CIF missing-value markers ('.' inapplicable, '?' unknown)
+ */
+export function isCifMissing(value: string | undefined): boolean {
+  return value === undefined || value === '.' || value === '?';
+}
+
+interface CifToken {
+  value: string;
+  quoted: boolean;  // Quoted and text-field values are never keywords or tags
+}
+
+const SPACE = 32;
+const TAB = 9;
+const LF = 10;
+const CR = 13;
+const HASH = 35;
+const SEMICOLON = 59;
+const SINGLE_QUOTE = 39;
+const DOUBLE_QUOTE = 34;
+const UNDERSCORE = 95;
+
+const isSpace = (code: number) => code === SPACE || code === TAB || code === LF || code === CR;
+
+/**
+ * Read CIF text one token at a time
+ * Handles comments, single/double-quoted values and semicolon text fields. The returned function
+ * yields the next token, or null at the end; it reuses one token object, so read its value before
+ * asking for the next
+ */
+function tokenizeCif(text: string): () => CifToken | null {
+  const token: CifToken = { value: '', quoted: false };
+  const length = text.length;
+  let i = 0;
+
+  return () => {
+    while (i < length) {
+      const code = text.charCodeAt(i);
+
+      if (isSpace(code)) {
+        i++;
+        continue;
+      }
+
+      // Comment to end of line
+      if (code === HASH) {
+        while (i < length && text.charCodeAt(i) !== LF) i++;
+        continue;
+      }
+
+      // Text field: ';' at the start of a line, closed by '\n;'
+      // A line break right after the opening ';' is layout, not part of the value
+      if (code === SEMICOLON && (i === 0 || text.charCodeAt(i - 1) === LF || text.charCodeAt(i - 1) === CR)) {
+        let end = text.indexOf('\n;', i + 1);
+        if (end === -1) end = length;
+        token.value = text.substring(i + 1, end).replace(/^\r?\n/, '').replace(/\r$/, '');
+        token.quoted = true;
+        i = end + 2;
+        return token;
+      }
+
+      // Quoted value: the closing quote must be followed by whitespace
+      if (code === SINGLE_QUOTE || code === DOUBLE_QUOTE) {
+        let end = i + 1;
+        while (end < length && !(text.charCodeAt(end) === code && (end + 1 >= length || isSpace(text.charCodeAt(end + 1))))) {
+          if (text.charCodeAt(end) === LF) break;
+          end++;
+        }
+        token.value = text.substring(i + 1, end);
+        token.quoted = true;
+        i = end + 1;
+        return token;
+      }
+
+      let end = i;
+      while (end < length && !isSpace(text.charCodeAt(end))) end++;
+      token.value = text.substring(i, end);
+      token.quoted = false;
+      i = end;
+      return token;
+    }
+
+    return null;
+  };
+}
+
+/**
+ * Split a tag into category and field (e.g. _atom_site.Cartn_x -> atom_site, Cartn_x)
+ */
+function splitTag(tag: string): [string, string] {
+  const name = tag.substring(1);
+  const dot = name.indexOf('.');
+  return dot === -1 ? [name, ''] : [name.substring(0, dot), name.substring(dot + 1)];
+}
+
+// Reserved words; any of them ends a loop's values (stop_ is consumed as a plain terminator)
+const RESERVED_WORDS = ['data_', 'loop_', 'save_', 'global_', 'stop_'];
+
+/**
+ * Reserved word an unquoted token starts with (case-insensitive), or null
+ */
+function reservedWord(token: CifToken): string | null {
+  if (token.quoted || token.value.length < 5) return null;
+  // Loop values are mostly numbers and names; only d/l/s/g can start a reserved word
+  const first = token.value.charCodeAt(0) | 0x20;
+  if (first !== 0x64 && first !== 0x6c && first !== 0x73 && first !== 0x67) return null;
+  const prefix = token.value.substring(0, 7).toLowerCase();
+  return RESERVED_WORDS.find(word => prefix.startsWith(word)) ?? null;
+}
+
+function isTag(token: CifToken): boolean {
+  return !token.quoted && token.value.charCodeAt(0) === UNDERSCORE;
+}
+
+/**
+ * Parse text CIF (CIF 1.1) into data blocks
+ * Tokens are read as a stream and loop values go straight into their columns, so large files
+ * are not held as a token list first
+ * Save frames are skipped; global_ blocks are read like data blocks with an empty header
+ * Throws when a loop's values do not fill its rows
+ */
+export function parseCif(text: string): CifFile {
+  const nextToken = tokenizeCif(text);
+  const blocks: CifBlock[] = [];
+  let block: CifBlock | null = null;
+  let token = nextToken();
+
+  const getCategory = (name: string, rowCount: number) => {
+    let category = block!.categories.get(name);
+    if (!category) {
+      category = { name, rowCount, fields: new Map() };
+      block!.categories.set(name, category);
+    }
+    return category;
+  };
+
+  while (token) {
+    const reserved = reservedWord(token);
+
+    if (reserved === 'data_' || reserved === 'global_') {
+      block = { header: reserved === 'data_' ? token.value.substring(5) : '', categories: new Map() };
+      blocks.push(block);
+      token = nextToken();
+      continue;
+    }
+
+    if (reserved === 'save_') {
+      // Skip the whole save frame up to its closing save_
+      token = nextToken();
+      while (token && !(reservedWord(token) === 'save_' && token.value.length === 5)) token = nextToken();
+      token = nextToken();
+      continue;
+    }
+
+    if (!block) {
+      token = nextToken();
+      continue;
+    }
+
+    if (reserved === 'loop_') {
+      token = nextToken();
+      const tags: string[] = [];
+      while (token && isTag(token)) {
+        tags.push(token.value);
+        token = nextToken();
+      }
+
+      // Values fill the columns row by row
+      const columns: string[][] = tags.map(() => []);
+      let valueCount = 0;
+      let column = 0;
+      while (token && !isTag(token) && !reservedWord(token)) {
+        if (tags.length > 0) {
+          columns[column].push(token.value);
+          column = column + 1 === tags.length ? 0 : column + 1;
+        }
+        valueCount++;
+        token = nextToken();
+      }
+
+      if (tags.length === 0) continue;
+      if (column !== 0) {
+        throw new Error(`CIF loop ${tags[0]} has ${valueCount} values for ${tags.length} columns`);
+      }
+      const category = getCategory(splitTag(tags[0])[0], valueCount / tags.length);
+      tags.forEach((tag, index) => category.fields.set(splitTag(tag)[1], columns[index]));
+      continue;
+    }
+
+    if (isTag(token)) {
+      const [categoryName, fieldName] = splitTag(token.value);
+      token = nextToken();
+      getCategory(categoryName, 1).fields.set(fieldName, [token ? token.value : '?']);
+      token = nextToken();
+      continue;
+    }
+
+    token = nextToken();
+  }
+
+  return { blocks };
+}
+
+/**
+ * Parse BinaryCIF (MessagePack-encoded columns) into the same structure as parseCif
+ */
+export function parseBinaryCif(data: Uint8Array): CifFile {
+  const file = decodeMsgPack(data) as EncodedFile;
+  if (!file || !Array.isArray(file.dataBlocks)) {
+    throw new Error('Invalid BinaryCIF file');
+  }
+
+  const blocks = file.dataBlocks.map(encodedBlock => {
+    const categories = new Map<string, CifCategory>();
+
+    for (const encoded of encodedBlock.categories) {
+      const name = encoded.name.startsWith('_') ? encoded.name.substring(1) : encoded.name;
+      const fields = new Map<string, string[]>();
+
+      for (const column of encoded.columns) {
+        const values = decode(column.data);
+        const mask = column.mask ? decode(column.mask) : null;
+        const field: string[] = new Array(encoded.rowCount);
+        for (let row = 0; row < encoded.rowCount; row++) {
+          // Mask: 0 = value present, 1 = '.', 2 = '?'
+          const kind = mask ? mask[row] : 0;
+          field[row] = kind === 1 ? '.' : kind === 2 ? '?' : String(values[row]);
+        }
+        fields.set(column.name, field);
+      }
+
+      categories.set(name, { name, rowCount: encoded.rowCount, fields });
+    }
+
+    return { header: encodedBlock.header, categories };
+  });
+
+  return { blocks };
+}
+
+/**
+ * Quote a value for text CIF
+ * Empty values become '?'; values with whitespace, leading reserved characters or keywords are quoted
+ */
+export function formatCifValue(value: string): string {
+  if (value === '') return '?';
+
+  const needsQuotes = /\s/.test(value) ||
+    /^[_#$'"[\];]/.test(value) ||
+    /^(data_|loop_|save_|global_|stop_)/i.test(value);
+  if (!needsQuotes) return value;
+
+  // A quote only closes a value when followed by whitespace, so inner quotes are allowed otherwise
+  if (!value.includes('\n')) {
+    if (!/'\s/.test(value) && !value.endsWith('\'')) return `'${value}'`;
+    if (!/"\s/.test(value) && !value.endsWith('"')) return `"${value}"`;
+  }
+  return `\n;${value}\n;\n`;
+}
+
+/**
+ * Write one category as key-value pairs (single row) or as a loop, with aligned columns
+ * Missing values should be passed as '?' or '.'
+ */
+export function writeCifCategory(name: string, fields: [string, string[]][]): string {
+  const rowCount = fields[0]?.[1].length ?? 0;
+  if (rowCount === 0) return '';
+
+  if (rowCount === 1) {
+    const width = Math.max(...fields.map(([field]) => name.length + field.length + 2));
+    const lines = fields.map(([field, values]) => {
+      const value = formatCifValue(values[0]);
+      const tag = `_${name}.${field}`;
+      return value.startsWith('\n') ? `${tag}${value}` : `${tag.padEnd(width)} ${value}`;
+    });
+    return `${lines.join('\n')}\n#\n`;
+  }
+
+  const columns = fields.map(([, values]) => values.map(formatCifValue));
+  const widths = columns.map(values =>
+    values.reduce((width, value) => (value.startsWith('\n') ? width : Math.max(width, value.length)), 0)
+  );
+  const lines = ['loop_', ...fields.map(([field]) => `_${name}.${field}`)];
+  for (let row = 0; row < rowCount; row++) {
+    lines.push(columns.map((values, column) => values[row].padEnd(widths[column])).join(' ').trimEnd());
+  }
+  return `${lines.join('\n')}\n#\n`;
+}
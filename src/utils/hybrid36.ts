@@ -0,0 +1,59 @@
+/**
+ * Hybrid-36 number encoding
+ * Used by PDB writers for atom serials above 99999 and residue numbers above 9999:
+ * decimal first, then upper-case base-36 (A000...), then lower-case base-36 (a000...)
+ */
+
+/**
+ * Decode a hybrid-36 field of the given width (5 for serials, 4 for residue numbers)
+ * Returns NaN for blank or malformed fields
+ */
+export function decodeHybrid36(width: number, field: string): number {
+  const value = field.trim();
+  if (!value) return NaN;
+
+  // Plain decimal (including negative residue numbers)
+  if (/^-?\d+$/.test(value)) return parseInt(value, 10);
+
+  if (value.length !== width || !/^[0-9A-Za-z]+$/.test(value)) return NaN;
+
+  const decimalRange = Math.pow(10, width);
+  const blockOffset = 10 * Math.pow(36, width - 1);
+  const blockSize = 26 * Math.pow(36, width - 1);
+
+  if (/^[A-Z][0-9A-Z]*$/.test(value)) {
+    return parseInt(value, 36) - blockOffset + decimalRange;
+  }
+  if (/^[a-z][0-9a-z]*$/.test(value)) {
+    return parseInt(value, 36) - blockOffset + decimalRange + blockSize;
+  }
+  return NaN;
+}
+
+/**
+ * Encode a number as a right-aligned hybrid-36 field of the given width
+ */
+export function encodeHybrid36(width: number, value: number): string {
+  const decimalRange = Math.pow(10, width);
+  if (value < decimalRange) {
+    const decimal = String(value);
+    if (decimal.length > width) {
+      throw new Error(`Value ${value} does not fit in ${width} columns`);
+    }
+    return decimal.padStart(width);
+  }
+
+  const blockOffset = 10 * Math.pow(36, width - 1);
+  const blockSize = 26 * Math.pow(36, width - 1);
+  let rest = value - decimalRange;
+
+  if (rest < blockSize) {
+    return (rest + blockOffset).toString(36).toUpperCase();
+  }
+  rest -= blockSize;
+  if (rest < blockSize) {
+    return (rest + blockOffset).toString(36);
+  }
+
+  throw new Error(`Value ${value} exceeds the hybrid-36 range for ${width} columns`);
+}
@@ -1,286 +1,522 @@
 /**
  * mmCIF to PDB Converter Utility
- * Uses Mol* library to parse mmCIF files and export to PDB format
+ * Uses Mol* library to parse mmCIF files and export to PDB format, or a PDB-format bundle
+ * when the structure exceeds the format's atom and chain limits
  */
 
+import { encodeHybrid36 } from './hybrid36';
+import { CifBlock, CifCategory, isCifMissing, parseCif } from './cif';
+import { Atom } from '../types/interaction';
+import { isWater } from '../analysis/ligandClasses';
+import {
+  buildConectRecords,
+  buildCryst1Record,
+  buildHeaderRecords,
+  buildHetnamRecords,
+  buildLinkRecords,
+  buildSeqresRecords,
+  formatAtomName,
+  formatChain,
+  pdbLine,
+} from './pdbRecords';
+
+export interface ConversionStats {
+  atomCount: number;
+  chainCount: number;
+  residueCount: number;
+  modelCount: number;
+  hasLigands: boolean;
+  exceedsPdbLimits: boolean;
+}
+
 export interface ConversionResult {
   success: boolean;
   pdbContent?: string;
+  // Set instead of pdbContent when the structure was split into a PDB-format bundle
+  bundle?: PdbBundle;
   error?: string;
-  stats?: {
-    atomCount: number;
-    chainCount: number;
-    residueCount: number;
-    hasLigands: boolean;
-  };
+  stats?: ConversionStats;
 }
 
+// Entity types from _entity.type; branched (oligosaccharide) entities count as non-polymer
+export type EntityType = 'polymer' | 'non-polymer' | 'water';
+
+// Which alternate conformation to keep: all of them, the first listed, or the highest occupancy
+export type AltLocStrategy = 'all' | 'first' | 'occupancy';
+
 export interface ConversionOptions {
-  includeHydrogens?: boolean;
-  preserveAltLoc?: boolean;
+  includeHydrogens?: boolean;       // Default true
+  altLocStrategy?: AltLocStrategy;  // Default 'all'
+  // Selection; omitted means everything
+  chains?: string[];
+  models?: number[];
+  entityTypes?: EntityType[];
+  // Split structures that do not fit the PDB format into a bundle of files
+  splitLargeStructures?: boolean;
+  // File name prefix for bundle files (e.g. the PDB ID)
+  bundleName?: string;
+}
+
+export interface PdbBundleFile {
+  name: string;
+  content: string;
+}
+
+// wwPDB-style PDB-format bundle: several PDB files plus the chain ID mapping table
+export interface PdbBundle {
+  files: PdbBundleFile[];
+  chainMapping: PdbBundleFile;
+}
+
+// PDB format limits: five-digit serials and single-character chain IDs
+const MAX_PDB_ATOMS = 99999;
+const PDB_CHAIN_IDS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// An atom_site row with the columns written to ATOM/HETATM records
+export interface SiteAtom extends Atom {
+  model: number;
+  entityType: EntityType;
+  occupancy: number;
+  tempFactor: number;
+}
+
+// The first data block with atoms, read once and converted with different selections
+export interface MMCIFStructure {
+  block: CifBlock;
+  atoms: SiteAtom[];
+}
+
+export interface ChainSummary {
+  id: string;
+  entityTypes: EntityType[];
+  atomCount: number;
+}
+
+// What a structure contains, for building a selection
+export interface StructureSummary {
+  models: number[];
+  chains: ChainSummary[];
+  entityTypes: EntityType[];
+  altLocCount: number;
+  hydrogenCount: number;
 }
 
 /**
- * Parse mmCIF content and convert to PDB format
- * This is a simplified parser that handles the most common mmCIF fields
+ * Read every atom_site row, keeping the file order
  */
-export async function convertMMCIFToPDB(
-  mmcifContent: string,
-  options: ConversionOptions = {}
-): Promise<ConversionResult> {
-  try {
-    const lines = mmcifContent.split('\n');
-
-    // Find atom_site loop section
-    let atomSiteLoopIndex = -1;
-    let columnNames: string[] = [];
-
-    // First pass: find the atom_site loop
-    for (let i = 0; i < lines.length; i++) {
-      const trimmed = lines[i].trim();
-
-      // Look for loop_ followed by _atom_site.
-      if (trimmed === 'loop_') {
-        // Check if the next lines are atom_site columns
-        let j = i + 1;
-        let foundAtomSite = false;
-        const tempColumns: string[] = [];
-
-        while (j < lines.length && lines[j].trim().startsWith('_atom_site.')) {
-          const colName = lines[j].trim().replace('_atom_site.', '');
-          tempColumns.push(colName);
-          foundAtomSite = true;
-          j++;
-        }
-
-        if (foundAtomSite && tempColumns.length > 0) {
-          atomSiteLoopIndex = i;
-          columnNames = tempColumns;
-          break;
-        }
-      }
-    }
+function readSiteAtoms(atomSite: CifCategory, entityTypes: Map<string, EntityType>): SiteAtom[] {
+  // Helper function to get field value ('?' and '.' mark missing values in CIF)
+  const getField = (row: number, fieldName: string, defaultValue: string = ''): string => {
+    const value = atomSite.fields.get(fieldName)?.[row];
+    return value && !isCifMissing(value) ? value : defaultValue;
+  };
+
+  const atoms: SiteAtom[] = [];
+  for (let row = 0; row < atomSite.rowCount; row++) {
+    const element = getField(row, 'type_symbol', 'C');
+    const resn = getField(row, 'label_comp_id', 'UNK');
+    const hetflag = getField(row, 'group_PDB', 'ATOM') === 'HETATM';
+
+    // Without _entity, fall back to the record type and residue name
+    const entityType = entityTypes.get(getField(row, 'label_entity_id')) ??
+      (isWater(resn) ? 'water' : hetflag ? 'non-polymer' : 'polymer');
+    // Zero occupancy is a valid value, so only a missing or unparsable one falls back to 1.0
+    const occupancy = parseFloat(getField(row, 'occupancy', '1.0'));
+
+    atoms.push({
+      serial: row + 1,
+      atomName: getField(row, 'label_atom_id', 'X'),
+      resn,
+      chain: getField(row, 'auth_asym_id', 'A') || 'A',
+      resi: parseInt(getField(row, 'auth_seq_id', '1')) || 1,
+      iCode: getField(row, 'pdbx_PDB_ins_code', ''),
+      x: parseFloat(getField(row, 'Cartn_x', '0')) || 0,
+      y: parseFloat(getField(row, 'Cartn_y', '0')) || 0,
+      z: parseFloat(getField(row, 'Cartn_z', '0')) || 0,
+      element: element[0].toUpperCase() + element.substring(1).toLowerCase(),
+      hetflag,
+      altLoc: getField(row, 'label_alt_id', ''),
+      formalCharge: parseInt(getField(row, 'pdbx_formal_charge', '0')) || 0,
+      model: parseInt(getField(row, 'pdbx_PDB_model_num', '1')) || 1,
+      entityType,
+      occupancy: isNaN(occupancy) ? 1.0 : occupancy,
+      tempFactor: parseFloat(getField(row, 'B_iso_or_equiv', '0.0')) || 0.0,
+    });
+  }
+  return atoms;
+}
 
-    if (atomSiteLoopIndex === -1 || columnNames.length === 0) {
-      throw new Error('No atom_site category found in mmCIF file');
+/**
+ * Parse mmCIF content into the first data block that has atoms
+ */
+export function readMMCIFStructure(mmcifContent: string): MMCIFStructure {
+  const cif = parseCif(mmcifContent);
+  const block = cif.blocks.find(b => (b.categories.get('atom_site')?.rowCount ?? 0) > 0);
+
+  if (!block) {
+    throw new Error('No atom_site category found in mmCIF file');
+  }
+
+  const entity = block.categories.get('entity');
+  const entityTypes = new Map<string, EntityType>();
+  for (let row = 0; entity && row < entity.rowCount; row++) {
+    const type = entity.fields.get('type')?.[row];
+    entityTypes.set(
+      entity.fields.get('id')?.[row] ?? '',
+      type === 'water' ? 'water' : type === 'polymer' ? 'polymer' : 'non-polymer'
+    );
+  }
+
+  return { block, atoms: readSiteAtoms(block.categories.get('atom_site')!, entityTypes) };
+}
+
+/**
+ * List the models, chains and entity types of a structure
+ */
+export function summarizeStructure(structure: MMCIFStructure): StructureSummary {
+  const models = new Set<number>();
+  const chains = new Map<string, ChainSummary>();
+  const entityTypes = new Set<EntityType>();
+  let altLocCount = 0;
+  let hydrogenCount = 0;
+
+  for (const atom of structure.atoms) {
+    models.add(atom.model);
+    entityTypes.add(atom.entityType);
+    if (atom.altLoc) altLocCount++;
+    if (atom.element === 'H' || atom.element === 'D') hydrogenCount++;
+
+    if (!chains.has(atom.chain)) {
+      chains.set(atom.chain, { id: atom.chain, entityTypes: [], atomCount: 0 });
     }
+    const chain = chains.get(atom.chain)!;
+    chain.atomCount++;
+    if (!chain.entityTypes.includes(atom.entityType)) chain.entityTypes.push(atom.entityType);
+  }
 
-    // Second pass: parse atom data starting after the column definitions
-    const atomData: string[][] = [];
-    let dataStartIndex = atomSiteLoopIndex + 1 + columnNames.length;
+  return {
+    models: Array.from(models).sort((a, b) => a - b),
+    chains: Array.from(chains.values()),
+    entityTypes: (['polymer', 'non-polymer', 'water'] as EntityType[]).filter(type => entityTypes.has(type)),
+    altLocCount,
+    hydrogenCount,
+  };
+}
 
-    for (let i = dataStartIndex; i < lines.length; i++) {
-      const trimmed = lines[i].trim();
+/**
+ * Apply the chain, model, entity, hydrogen and altLoc selection
+ * A single kept conformation is written with a blank altLoc
+ */
+export function selectAtoms(structure: MMCIFStructure, options: ConversionOptions = {}): SiteAtom[] {
+  const chains = options.chains && new Set(options.chains);
+  const models = options.models && new Set(options.models);
+  const entityTypes = options.entityTypes && new Set(options.entityTypes);
+  const includeHydrogens = options.includeHydrogens ?? true;
+  const strategy = options.altLocStrategy ?? 'all';
+
+  const selected = structure.atoms.filter(atom =>
+    (!chains || chains.has(atom.chain)) &&
+    (!models || models.has(atom.model)) &&
+    (!entityTypes || entityTypes.has(atom.entityType)) &&
+    (includeHydrogens || (atom.element !== 'H' && atom.element !== 'D'))
+  );
+  if (strategy === 'all') return selected;
+
+  // Pick one altLoc per residue so conformers are never mixed
+  const residueKey = (atom: SiteAtom) => `${atom.model}:${atom.chain}:${atom.resi}:${atom.iCode}:${atom.resn}`;
+  const altLocs = new Map<string, Map<string, { occupancy: number; count: number }>>();
+  for (const atom of selected) {
+    if (!atom.altLoc) continue;
+    const key = residueKey(atom);
+    if (!altLocs.has(key)) altLocs.set(key, new Map());
+    const totals = altLocs.get(key)!;
+    const total = totals.get(atom.altLoc) ?? { occupancy: 0, count: 0 };
+    total.occupancy += atom.occupancy;
+    total.count++;
+    totals.set(atom.altLoc, total);
+  }
 
-      // Stop at empty line, comment, or new category/loop/data block
-      if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('_') || trimmed.startsWith('data_') || trimmed.startsWith('loop_')) {
+  const chosen = new Map<string, string>();
+  for (const [key, totals] of altLocs) {
+    let best = '';
+    let bestOccupancy = -1;
+    for (const [altLoc, { occupancy, count }] of totals) {
+      if (strategy === 'first') {
+        best = altLoc;
         break;
       }
-
-      // Split by whitespace, respecting quotes
-      const values = parseCifLine(trimmed);
-      if (values.length > 0) {
-        atomData.push(values);
+      if (occupancy / count > bestOccupancy) {
+        best = altLoc;
+        bestOccupancy = occupancy / count;
       }
     }
+    chosen.set(key, best);
+  }
 
-    if (atomData.length === 0) {
-      throw new Error('No atom data found in mmCIF file');
-    }
+  return selected
+    .filter(atom => !atom.altLoc || chosen.get(residueKey(atom)) === atom.altLoc)
+    .map(atom => (atom.altLoc ? { ...atom, altLoc: '' } : atom));
+}
 
-    // Create column index map
-    const colIndex: { [key: string]: number } = {};
-    columnNames.forEach((name, idx) => {
-      colIndex[name] = idx;
-    });
+/**
+ * Count what a selection keeps (also used as the conversion statistics)
+ */
+export function summarizeSelection(atoms: SiteAtom[]): ConversionStats {
+  const chains = new Set<string>();
+  const residues = new Set<string>();
+  const modelAtoms = new Map<number, number>();
+  for (const atom of atoms) {
+    chains.add(atom.chain);
+    residues.add(`${atom.chain}:${atom.resi}:${atom.iCode}:${atom.resn.trim()}`);
+    modelAtoms.set(atom.model, (modelAtoms.get(atom.model) ?? 0) + 1);
+  }
 
-    // Helper function to get field value
-    const getField = (row: string[], fieldName: string, defaultValue: string = ''): string => {
-      const idx = colIndex[fieldName];
-      if (idx === undefined || idx >= row.length) return defaultValue;
-      return row[idx] || defaultValue;
-    };
+  return {
+    atomCount: atoms.length,
+    chainCount: chains.size,
+    residueCount: residues.size,
+    modelCount: modelAtoms.size,
+    hasLigands: atoms.some(atom => atom.hetflag),
+    // Serials restart in every model, so the atom limit applies per model
+    exceedsPdbLimits: Math.max(0, ...modelAtoms.values()) > MAX_PDB_ATOMS ||
+      chains.size > PDB_CHAIN_IDS.length ||
+      Array.from(chains).some(chain => chain.length > 1),
+  };
+}
 
-    // Generate PDB format lines
-    const pdbLines: string[] = [];
-    const chains = new Set<string>();
-    const residues = new Set<string>();
-    let hetAtmCount = 0;
-
-    for (let i = 0; i < atomData.length; i++) {
-      const row = atomData[i];
-
-      const groupPDB = getField(row, 'group_PDB', 'ATOM');
-      const isHetAtom = groupPDB === 'HETATM';
-      if (isHetAtom) hetAtmCount++;
-
-      const recordName = isHetAtom ? 'HETATM' : 'ATOM';
-      const serial = i + 1;
-      const atomName = getField(row, 'label_atom_id', 'X');
-      const altLoc = getField(row, 'label_alt_id', '');
-      const resName = getField(row, 'label_comp_id', 'UNK');
-      const chainID = getField(row, 'auth_asym_id', 'A').substring(0, 1) || 'A';
-      const resSeq = parseInt(getField(row, 'auth_seq_id', '1')) || 1;
-      const iCode = getField(row, 'pdbx_PDB_ins_code', '');
-
-      const x = parseFloat(getField(row, 'Cartn_x', '0')) || 0;
-      const y = parseFloat(getField(row, 'Cartn_y', '0')) || 0;
-      const z = parseFloat(getField(row, 'Cartn_z', '0')) || 0;
-
-      const occupancy = parseFloat(getField(row, 'occupancy', '1.0')) || 1.0;
-      const tempFactor = parseFloat(getField(row, 'B_iso_or_equiv', '0.0')) || 0.0;
-      const element = getField(row, 'type_symbol', 'C');
-      const charge = getField(row, 'pdbx_formal_charge', '');
-
-      // Track stats
-      chains.add(chainID);
-      residues.add(`${chainID}:${resSeq}:${resName.trim()}`);
-
-      // Format PDB line according to specification
-      // COLUMNS        DATA TYPE       FIELD           DEFINITION
-      // -------------------------------------------------------------------------
-      // 1 - 6          Record name     "ATOM  " or "HETATM"
-      // 7 - 11         Integer         serial          Atom serial number
-      // 13 - 16        Atom            name            Atom name
-      // 17             Character       altLoc          Alternate location indicator
-      // 18 - 20        Residue name    resName         Residue name
-      // 22             Character       chainID         Chain identifier
-      // 23 - 26        Integer         resSeq          Residue sequence number
-      // 27             AChar           iCode           Code for insertion of residues
-      // 31 - 38        Real(8.3)       x               Orthogonal coordinates for X
-      // 39 - 46        Real(8.3)       y               Orthogonal coordinates for Y
-      // 47 - 54        Real(8.3)       z               Orthogonal coordinates for Z
-      // 55 - 60        Real(6.2)       occupancy       Occupancy
-      // 61 - 66        Real(6.2)       tempFactor      Temperature factor
-      // 77 - 78        LString(2)      element         Element symbol
-      // 79 - 80        LString(2)      charge          Charge
-
-      // Format atom name properly (4 chars, left-aligned for 4-char names, right-aligned for shorter)
-      let formattedAtomName = atomName.substring(0, 4);
-      if (formattedAtomName.length < 4) {
-        // For short names, left-align is standard
-        formattedAtomName = formattedAtomName.padEnd(4);
-      }
+/**
+ * Format one ATOM/HETATM record, writing the atom under the given chain ID
+ */
+function formatAtomRecord(atom: SiteAtom, chainID: string): string {
+  // PDB writes charges as magnitude then sign ("2+"); neutral atoms are left blank
+  const formalCharge = atom.formalCharge ?? 0;
+  const charge = formalCharge === 0 ? '' : `${Math.abs(formalCharge)}${formalCharge > 0 ? '+' : '-'}`;
+
+  // Format PDB line according to specification
+  // COLUMNS        DATA TYPE       FIELD           DEFINITION
+  // -------------------------------------------------------------------------
+  // 1 - 6          Record name     "ATOM  " or "HETATM"
+  // 7 - 11         Integer         serial          Atom serial number (hybrid-36 above 99999)
+  // 13 - 16        Atom            name            Atom name
+  // 17             Character       altLoc          Alternate location indicator
+  // 18 - 20        Residue name    resName         Residue name
+  // 21 - 22        Character       chainID         Chain identifier (two-character IDs use column 21)
+  // 23 - 26        Integer         resSeq          Residue sequence number (hybrid-36 above 9999)
+  // 27             AChar           iCode           Code for insertion of residues
+  // 31 - 38        Real(8.3)       x               Orthogonal coordinates for X
+  // 39 - 46        Real(8.3)       y               Orthogonal coordinates for Y
+  // 47 - 54        Real(8.3)       z               Orthogonal coordinates for Z
+  // 55 - 60        Real(6.2)       occupancy       Occupancy
+  // 61 - 66        Real(6.2)       tempFactor      Temperature factor
+  // 73 - 76        LString(4)      segID           Chain IDs longer than two characters
+  // 77 - 78        LString(2)      element         Element symbol
+  // 79 - 80        LString(2)      charge          Charge
+
+  // Chains that do not fit in columns 21-22 are written to the segment ID instead
+  const wideChain = chainID.length > 2;
+
+  const line = [
+    (atom.hetflag ? 'HETATM' : 'ATOM').padEnd(6), // 1-6
+    encodeHybrid36(5, atom.serial),              // 7-11
+    ' ',                                         // 12
+    formatAtomName(atom.atomName, atom.element), // 13-16
+    atom.altLoc.substring(0, 1).padEnd(1),       // 17
+    atom.resn.substring(0, 3).padEnd(3),         // 18-20
+    formatChain(chainID),                        // 21-22
+    encodeHybrid36(4, atom.resi),                // 23-26
+    atom.iCode.substring(0, 1).padEnd(1),        // 27
+    '   ',                                       // 28-30
+    atom.x.toFixed(3).padStart(8),               // 31-38
+    atom.y.toFixed(3).padStart(8),               // 39-46
+    atom.z.toFixed(3).padStart(8),               // 47-54
+    atom.occupancy.toFixed(2).padStart(6),       // 55-60
+    atom.tempFactor.toFixed(2).padStart(6),      // 61-66
+    '      ',                                    // 67-72
+    wideChain ? chainID.substring(0, 4).padEnd(4) : '    ', // 73-76
+    atom.element.toUpperCase().substring(0, 2).padStart(2), // 77-78
+    charge ? charge.substring(0, 2).padStart(2) : '  ',     // 79-80
+  ].join('');
+
+  // Ensure exactly 80 characters
+  return pdbLine(line);
+}
 
-      const pdbLine = [
-        recordName.padEnd(6),                    // 1-6
-        String(serial).padStart(5),              // 7-11
-        ' ',                                     // 12
-        formattedAtomName,                        // 13-16
-        altLoc.substring(0, 1),                  // 17
-        resName.substring(0, 3).padEnd(3),       // 18-20
-        ' ',                                     // 21
-        chainID.substring(0, 1),                 // 22
-        String(resSeq).padStart(4),              // 23-26
-        iCode.substring(0, 1),                   // 27
-        '   ',                                   // 28-30
-        x.toFixed(3).padStart(8),                // 31-38
-        y.toFixed(3).padStart(8),                // 39-46
-        z.toFixed(3).padStart(8),                // 47-54
-        occupancy.toFixed(2).padStart(6),        // 55-60
-        tempFactor.toFixed(2).padStart(6),       // 61-66
-        '          ',                            // 67-76
-        element.trim().substring(0, 2).padStart(2), // 77-78
-        charge ? charge.substring(0, 2).padStart(2) : '  ', // 79-80
-      ].join('');
-
-      // Ensure exactly 80 characters
-      pdbLines.push(pdbLine.padEnd(80).substring(0, 80));
+/**
+ * Write a complete PDB file for the given atoms
+ * Serials restart in every model; several models are wrapped in MODEL/ENDMDL and
+ * connectivity is written for the first model only
+ * chainIds maps original to output chain IDs for bundle files; otherwise chains keep their IDs.
+ * SEQRES and LINK records are limited to the chains of the given atoms
+ */
+function writePdbFile(block: CifBlock, atoms: SiteAtom[], chainIds?: Map<string, string>): string {
+  const models = new Map<number, SiteAtom[]>();
+  const outputChains = chainIds ?? new Map<string, string>();
+  for (const atom of atoms) {
+    if (!models.has(atom.model)) models.set(atom.model, []);
+    models.get(atom.model)!.push({ ...atom, serial: models.get(atom.model)!.length + 1 });
+    if (!chainIds && !outputChains.has(atom.chain)) outputChains.set(atom.chain, atom.chain);
+  }
+  const modelAtoms = Array.from(models.entries()).sort((a, b) => a[0] - b[0]);
+  const firstModel = modelAtoms[0]?.[1] ?? [];
+
+  const coordinateLines: string[] = [];
+  for (const [model, members] of modelAtoms) {
+    if (modelAtoms.length > 1) coordinateLines.push(pdbLine(`MODEL     ${String(model).padStart(4)}`));
+    for (const atom of members) {
+      coordinateLines.push(formatAtomRecord(atom, outputChains.get(atom.chain) ?? atom.chain));
     }
+    if (modelAtoms.length > 1) coordinateLines.push(pdbLine('ENDMDL'));
+  }
 
-    // Add END record
-    pdbLines.push('END'.padEnd(80));
+  // Records in PDB order: title section, primary structure, heterogens, connectivity annotation,
+  // crystallographic section, coordinates, connectivity
+  const pdbLines = [
+    ...buildHeaderRecords(block),
+    ...buildSeqresRecords(block, outputChains),
+    ...buildHetnamRecords(block, firstModel),
+    ...buildLinkRecords(block, firstModel, outputChains),
+    ...buildCryst1Record(block),
+    ...coordinateLines,
+    ...buildConectRecords(block, firstModel),
+    pdbLine('END'),
+  ];
+
+  return pdbLines.join('\n');
+}
 
-    const pdbContent = pdbLines.join('\n');
+/**
+ * Split a structure into a PDB-format bundle
+ * Whole chains are packed in file order into files of at most 99,999 atoms (per model) and 62 chains,
+ * each chain renamed to a single character
+ */
+function buildPdbBundle(block: CifBlock, atoms: SiteAtom[], name: string): PdbBundle {
+  const chainAtoms = new Map<string, SiteAtom[]>();
+  const chainSizes = new Map<string, Map<number, number>>();
+  for (const atom of atoms) {
+    if (!chainAtoms.has(atom.chain)) {
+      chainAtoms.set(atom.chain, []);
+      chainSizes.set(atom.chain, new Map());
+    }
+    chainAtoms.get(atom.chain)!.push(atom);
+    const sizes = chainSizes.get(atom.chain)!;
+    sizes.set(atom.model, (sizes.get(atom.model) ?? 0) + 1);
+  }
 
-    return {
-      success: true,
-      pdbContent,
-      stats: {
-        atomCount: atomData.length,
-        chainCount: chains.size,
-        residueCount: residues.size,
-        hasLigands: hetAtmCount > 0,
-      },
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
+  // Group chains into files
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentAtoms = 0;
+  for (const chain of chainAtoms.keys()) {
+    const size = Math.max(...chainSizes.get(chain)!.values());
+    if (current.length > 0 &&
+        (current.length === PDB_CHAIN_IDS.length || currentAtoms + size > MAX_PDB_ATOMS)) {
+      groups.push(current);
+      current = [];
+      currentAtoms = 0;
+    }
+    current.push(chain);
+    currentAtoms += size;
   }
+  if (current.length > 0) groups.push(current);
+
+  const files: PdbBundleFile[] = [];
+  const mappingLines = ['    New chain ID            Original chain ID', ''];
+
+  groups.forEach((chains, index) => {
+    const fileName = `${name}-pdb-bundle${index + 1}.pdb`;
+    const chainIds = new Map(chains.map((chain, i) => [chain, PDB_CHAIN_IDS[i]]));
+    const members = new Set(chains);
+    files.push({ name: fileName, content: writePdbFile(block, atoms.filter(atom => members.has(atom.chain)), chainIds) });
+
+    mappingLines.push(`${fileName}:`);
+    for (const [original, renamed] of chainIds) {
+      mappingLines.push(`${' '.repeat(11)}${renamed}${' '.repeat(24)}${original}`);
+    }
+    mappingLines.push('');
+  });
+
+  return {
+    files,
+    chainMapping: { name: `${name}-chain-id-mapping.txt`, content: mappingLines.join('\n') },
+  };
 }
 
 /**
- * Parse a CIF data line, handling quoted strings
+ * Parse mmCIF content and convert to PDB format
+ * Reads atom_site from the first data block that has atoms, and carries over
+ * header, sequence, hetero group names, connections and the unit cell
+ * Accepts an already parsed structure so one file can be converted with several selections
  */
-function parseCifLine(line: string): string[] {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if ((char === '"' || char === "'") && !inQuotes) {
-      inQuotes = true;
-      quoteChar = char;
-    } else if (char === quoteChar && inQuotes) {
-      inQuotes = false;
-      quoteChar = '';
-    } else if (char === ' ' && !inQuotes) {
-      if (current || values.length > 0) {
-        values.push(current);
-        current = '';
-      }
-    } else {
-      current += char;
+export async function convertMMCIFToPDB(
+  mmcifContent: string | MMCIFStructure,
+  options: ConversionOptions = {}
+): Promise<ConversionResult> {
+  try {
+    const structure = typeof mmcifContent === 'string' ? readMMCIFStructure(mmcifContent) : mmcifContent;
+    const atoms = selectAtoms(structure, options);
+
+    if (atoms.length === 0) {
+      throw new Error('No atoms left after applying the selection');
     }
-  }
 
-  if (current || values.length > 0) {
-    values.push(current);
-  }
+    const stats = summarizeSelection(atoms);
 
-  // Handle single value (space in quoted string)
-  if (values.length === 1 && values[0].startsWith("'") && values[0].endsWith("'")) {
-    return [values[0].slice(1, -1)];
-  }
+    if (stats.exceedsPdbLimits && options.splitLargeStructures) {
+      const name = options.bundleName || structure.block.header.toLowerCase() || 'structure';
+      return { success: true, bundle: buildPdbBundle(structure.block, atoms, name), stats };
+    }
 
-  return values;
+    return { success: true, pdbContent: writePdbFile(structure.block, atoms), stats };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
 }
 
 /**
- * Parse gzipped content using browser's DecompressionStream API
+ * Decompress gzip data using the browser's DecompressionStream API
+ * Also available in web workers
  */
-export async function decompressGzip(arrayBuffer: ArrayBuffer): Promise<string> {
+async function gunzip(arrayBuffer: ArrayBuffer): Promise<ArrayBuffer> {
   // Check if DecompressionStream is supported
-  if (!('DecompressionStream' in window)) {
+  if (!('DecompressionStream' in globalThis)) {
     throw new Error('Gzip 压缩文件不支持：浏览器不支持 DecompressionStream API');
   }
 
   const blob = new Blob([arrayBuffer]);
   const ds = new DecompressionStream('gzip');
   const decompressedStream = blob.stream().pipeThrough(ds);
-  const decompressedBlob = await new Response(decompressedStream).blob();
-  return await decompressedBlob.text();
+  return await new Response(decompressedStream).arrayBuffer();
 }
 
 /**
- * Read file and handle potential gzip compression
+ * Parse gzipped content using browser's DecompressionStream API
  */
-export async function readFileContent(file: File): Promise<string> {
+export async function decompressGzip(arrayBuffer: ArrayBuffer): Promise<string> {
+  return new TextDecoder('utf-8').decode(await gunzip(arrayBuffer));
+}
+
+/**
+ * Read file bytes and handle potential gzip compression
+ */
+export async function readFileBytes(file: File): Promise<ArrayBuffer> {
   const arrayBuffer = await file.arrayBuffer();
 
   // Check if file is gzipped (magic number: 0x1f 0x8b)
   const bytes = new Uint8Array(arrayBuffer.slice(0, 2));
   if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
-    // Gzipped file
-    return await decompressGzip(arrayBuffer);
+    return await gunzip(arrayBuffer);
   }
 
-  // Plain text file
+  return arrayBuffer;
+}
+
+/**
+ * Read file and handle potential gzip compression
+ */
+export async function readFileContent(file: File): Promise<string> {
   const decoder = new TextDecoder('utf-8');
-  return decoder.decode(arrayBuffer);
+  return decoder.decode(await readFileBytes(file));
 }
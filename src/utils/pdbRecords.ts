@@ -0,0 +1,374 @@
+/**
+ * PDB metadata record builders
+ * Turns mmCIF categories into HEADER, TITLE, SEQRES, HETNAM, LINK, CRYST1 and CONECT records
+ */
+
+import { Atom } from '../types/interaction';
+import { CifBlock, CifCategory, isCifMissing } from './cif';
+import { encodeHybrid36 } from './hybrid36';
+import { residueKey } from '../analysis/pdbParser';
+import { inferBonds } from '../analysis/bondPerception';
+import { isWater } from '../analysis/ligandClasses';
+
+// Connection types written as LINK/CONECT (disulfides and hydrogen bonds are not)
+const LINK_CONN_TYPES = new Set(['covale', 'covale_base', 'covale_phosphate', 'covale_sugar', 'metalc']);
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Pad or cut a record to exactly 80 columns
+ */
+export function pdbLine(line: string): string {
+  return line.padEnd(80).substring(0, 80);
+}
+
+/**
+ * Atom name in columns 13-16
+ * Names shorter than four characters with a one-letter element start in column 14 (" CA ")
+ */
+export function formatAtomName(name: string, element: string): string {
+  if (name.length >= 4) return name.substring(0, 4);
+  return element.trim().length === 1 ? ` ${name}`.padEnd(4) : name.padEnd(4);
+}
+
+/**
+ * Chain ID in two columns (e.g. 21-22); chains longer than two characters are left blank
+ */
+export function formatChain(chain: string): string {
+  return chain.length > 2 ? '  ' : chain.padStart(2);
+}
+
+/**
+ * Read a value from a category, returning '' for missing values
+ */
+function value(category: CifCategory | undefined, name: string, row = 0): string {
+  const raw = category?.fields.get(name)?.[row];
+  return raw === undefined || isCifMissing(raw) ? '' : raw;
+}
+
+/**
+ * Split text into chunks that fit a record's free-text columns
+ */
+function wrapText(text: string, width: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    if (current && current.length + 1 + word.length > width) {
+      chunks.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * HEADER and TITLE from _struct_keywords, _pdbx_database_status, _entry and _struct
+ */
+export function buildHeaderRecords(block: CifBlock): string[] {
+  const lines: string[] = [];
+  const classification = value(block.categories.get('struct_keywords'), 'pdbx_keywords');
+  // Only a PDB ID (e.g. 1ABC) fits the 4-column idCode; other entry ids such as AF-P12345-F1 are left out
+  const entryId = value(block.categories.get('entry'), 'id');
+  const idCode = /^[0-9][A-Za-z0-9]{3}$/.test(entryId) ? entryId.toUpperCase() : '';
+  const date = value(block.categories.get('pdbx_database_status'), 'recvd_initial_deposition_date');
+
+  // Deposition date as DD-MMM-YY
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const depDate = dateMatch
+    ? `${dateMatch[3]}-${MONTHS[parseInt(dateMatch[2]) - 1]}-${dateMatch[1].substring(2)}`
+    : '';
+
+  if (classification || idCode) {
+    // 1-6 HEADER, 11-50 classification, 51-59 depDate, 63-66 idCode
+    lines.push(pdbLine(
+      `HEADER    ${classification.substring(0, 40).padEnd(40)}${depDate.padEnd(9)}   ${idCode}`
+    ));
+  }
+
+  // 1-6 TITLE, 9-10 continuation, 11-80 title (continuation lines leave column 11 blank)
+  const title = value(block.categories.get('struct'), 'title');
+  wrapText(title, 69).forEach((chunk, i) => {
+    lines.push(pdbLine(i === 0 ? `TITLE     ${chunk}` : `TITLE   ${String(i + 1).padStart(2)} ${chunk}`));
+  });
+
+  return lines;
+}
+
+/**
+ * SEQRES from _entity_poly_seq, with chains from _entity_poly.pdbx_strand_id
+ * (or from the atoms' label_entity_id when the strand list is missing)
+ * chainIds maps original to output chain IDs; when given, only those chains are written
+ */
+export function buildSeqresRecords(block: CifBlock, chainIds?: Map<string, string>): string[] {
+  const polySeq = block.categories.get('entity_poly_seq');
+  if (!polySeq) return [];
+
+  // Sequence per entity; microheterogeneity keeps the first residue at each position
+  const sequences = new Map<string, string[]>();
+  const seenPositions = new Set<string>();
+  for (let row = 0; row < polySeq.rowCount; row++) {
+    const entity = value(polySeq, 'entity_id', row);
+    const position = `${entity}:${value(polySeq, 'num', row)}`;
+    if (seenPositions.has(position)) continue;
+    seenPositions.add(position);
+
+    if (!sequences.has(entity)) sequences.set(entity, []);
+    sequences.get(entity)!.push(value(polySeq, 'mon_id', row));
+  }
+
+  // Chains per entity
+  const chainsByEntity = new Map<string, string[]>();
+  const entityPoly = block.categories.get('entity_poly');
+  for (let row = 0; entityPoly && row < entityPoly.rowCount; row++) {
+    const strands = value(entityPoly, 'pdbx_strand_id', row);
+    if (strands) {
+      chainsByEntity.set(value(entityPoly, 'entity_id', row), strands.split(',').map(s => s.trim()));
+    }
+  }
+
+  // Chains in the order they appear among the atoms
+  const atomSite = block.categories.get('atom_site');
+  const chainOrder: string[] = [];
+  for (let row = 0; atomSite && row < atomSite.rowCount; row++) {
+    const chain = value(atomSite, 'auth_asym_id', row);
+    const entity = value(atomSite, 'label_entity_id', row);
+    if (!chainOrder.includes(chain)) chainOrder.push(chain);
+    if (entity && sequences.has(entity) && !Array.from(chainsByEntity.values()).some(chains => chains.includes(chain))) {
+      chainsByEntity.set(entity, [...(chainsByEntity.get(entity) ?? []), chain]);
+    }
+  }
+
+  const chainSequences: [string, string[]][] = [];
+  for (const [entity, chains] of chainsByEntity) {
+    const sequence = sequences.get(entity);
+    if (!sequence) continue;
+    for (const chain of chains) chainSequences.push([chain, sequence]);
+  }
+  chainSequences.sort((a, b) => chainOrder.indexOf(a[0]) - chainOrder.indexOf(b[0]));
+
+  // 1-6 SEQRES, 8-10 serNum, 11-12 chainID, 14-17 numRes, 20-70 up to 13 residues
+  const lines: string[] = [];
+  for (const [originalChain, sequence] of chainSequences) {
+    if (chainIds && !chainIds.has(originalChain)) continue;
+    const chain = chainIds?.get(originalChain) ?? originalChain;
+    for (let start = 0, serNum = 1; start < sequence.length; start += 13, serNum++) {
+      const residues = sequence.slice(start, start + 13).map(resn => resn.substring(0, 3).padStart(3)).join(' ');
+      lines.push(pdbLine(
+        `SEQRES ${String(serNum).padStart(3)}${formatChain(chain)} ${String(sequence.length).padStart(4)}  ${residues}`
+      ));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * HETNAM for every hetero group present among the atoms, named from _chem_comp
+ */
+export function buildHetnamRecords(block: CifBlock, atoms: Atom[]): string[] {
+  const chemComp = block.categories.get('chem_comp');
+  const names = new Map<string, string>();
+  for (let row = 0; chemComp && row < chemComp.rowCount; row++) {
+    names.set(value(chemComp, 'id', row), value(chemComp, 'name', row));
+  }
+
+  const hetIds: string[] = [];
+  for (const atom of atoms) {
+    if (atom.hetflag && !isWater(atom.resn) && !hetIds.includes(atom.resn)) {
+      hetIds.push(atom.resn);
+    }
+  }
+
+  // 1-6 HETNAM, 9-10 continuation, 12-14 hetID, 16-70 chemical name
+  const lines: string[] = [];
+  for (const hetId of hetIds) {
+    const name = names.get(hetId);
+    if (!name) continue;
+    wrapText(name.toUpperCase(), 55).forEach((chunk, i) => {
+      const continuation = i === 0 ? '  ' : String(i + 1).padStart(2);
+      lines.push(pdbLine(`HETNAM  ${continuation} ${hetId.substring(0, 3).padStart(3)} ${chunk}`));
+    });
+  }
+
+  return lines;
+}
+
+export type ConnectionPartner = Pick<Atom, 'chain' | 'resi' | 'iCode' | 'resn' | 'atomName' | 'altLoc'>;
+
+// One _struct_conn row: both partners, their symmetry operators and the bond length
+export interface Connection {
+  partners: [ConnectionPartner, ConnectionPartner];
+  symmetry: [string, string];
+  distance: number;
+}
+
+/**
+ * Covalent and metal connections from _struct_conn
+ */
+export function readConnections(block: CifBlock): Connection[] {
+  const structConn = block.categories.get('struct_conn');
+  const connections: Connection[] = [];
+
+  for (let row = 0; structConn && row < structConn.rowCount; row++) {
+    if (!LINK_CONN_TYPES.has(value(structConn, 'conn_type_id', row).toLowerCase())) continue;
+
+    // Same identifiers as the atom records: auth chain and number, label residue and atom names
+    const get = (...names: string[]) => names.map(name => value(structConn, name, row)).find(Boolean) ?? '';
+    const partner = (n: 1 | 2) => ({
+      chain: get(`ptnr${n}_auth_asym_id`, `ptnr${n}_label_asym_id`),
+      resi: parseInt(get(`ptnr${n}_auth_seq_id`, `ptnr${n}_label_seq_id`)) || 0,
+      iCode: get(`pdbx_ptnr${n}_PDB_ins_code`),
+      resn: get(`ptnr${n}_label_comp_id`, `ptnr${n}_auth_comp_id`),
+      atomName: get(`ptnr${n}_label_atom_id`, `pdbx_ptnr${n}_auth_atom_id`),
+      altLoc: get(`pdbx_ptnr${n}_label_alt_id`),
+    });
+
+    connections.push({
+      partners: [partner(1), partner(2)],
+      symmetry: [
+        value(structConn, 'ptnr1_symmetry', row).replace('_', ''),
+        value(structConn, 'ptnr2_symmetry', row).replace('_', ''),
+      ],
+      distance: parseFloat(value(structConn, 'pdbx_dist_value', row)),
+    });
+  }
+
+  return connections;
+}
+
+/**
+ * LINK records for covalent and metal connections
+ * Only links between the given atoms are written; chainIds maps original to output chain IDs
+ */
+export function buildLinkRecords(block: CifBlock, atoms: Atom[], chainIds?: Map<string, string>): string[] {
+  const elements = new Map<string, string>();
+  for (const atom of atoms) {
+    elements.set(`${residueKey(atom)}:${atom.atomName}`, atom.element);
+  }
+
+  // 13-16 name, 17 altLoc, 18-20 resName, 21-22 chainID, 23-26 resSeq, 27 iCode (then 43-57 for partner 2),
+  // 60-65 sym1, 67-72 sym2, 74-78 length
+  const formatPartner = (partner: ConnectionPartner) => {
+    const element = elements.get(`${residueKey(partner)}:${partner.atomName}`)!;
+    return formatAtomName(partner.atomName, element) +
+      (partner.altLoc.substring(0, 1) || ' ') +
+      partner.resn.substring(0, 3).padStart(3) +
+      formatChain(chainIds?.get(partner.chain) ?? partner.chain) +
+      encodeHybrid36(4, partner.resi) +
+      (partner.iCode.substring(0, 1) || ' ');
+  };
+
+  const connections = readConnections(block)
+    .filter(({ partners }) => partners.every(partner => elements.has(`${residueKey(partner)}:${partner.atomName}`)));
+
+  return connections.map(({ partners, symmetry, distance }) => pdbLine(
+    'LINK        ' +
+    formatPartner(partners[0]) +
+    ' '.repeat(15) +
+    formatPartner(partners[1]) +
+    '  ' +
+    symmetry[0].padStart(6) + ' ' +
+    symmetry[1].padStart(6) + ' ' +
+    (isNaN(distance) ? '' : distance.toFixed(2).padStart(5))
+  ));
+}
+
+/**
+ * CRYST1 from _cell and _symmetry
+ */
+export function buildCryst1Record(block: CifBlock): string[] {
+  const cell = block.categories.get('cell');
+  const lengths = ['length_a', 'length_b', 'length_c'].map(name => parseFloat(value(cell, name)));
+  const angles = ['angle_alpha', 'angle_beta', 'angle_gamma'].map(name => parseFloat(value(cell, name)));
+  if ([...lengths, ...angles].some(isNaN)) return [];
+
+  const spaceGroup = value(block.categories.get('symmetry'), 'space_group_name_H-M') || 'P 1';
+  const z = parseInt(value(cell, 'Z_PDB')) || 1;
+
+  // 7-15 a, 16-24 b, 25-33 c, 34-40 alpha, 41-47 beta, 48-54 gamma, 56-66 space group, 67-70 Z
+  return [pdbLine(
+    'CRYST1' +
+    lengths.map(length => length.toFixed(3).padStart(9)).join('') +
+    angles.map(angle => angle.toFixed(2).padStart(7)).join('') +
+    ' ' +
+    spaceGroup.substring(0, 11).padEnd(11) +
+    String(z).padStart(4)
+  )];
+}
+
+/**
+ * CONECT records for hetero groups and covalent/metal connections
+ * Ligand bonds come from _chem_comp_bond when present, otherwise from interatomic distances
+ */
+export function buildConectRecords(block: CifBlock, atoms: Atom[]): string[] {
+  const bonds = new Map<number, Set<number>>();
+  const addBond = (a: number, b: number) => {
+    if (a === b) return;
+    if (!bonds.has(a)) bonds.set(a, new Set());
+    if (!bonds.has(b)) bonds.set(b, new Set());
+    bonds.get(a)!.add(b);
+    bonds.get(b)!.add(a);
+  };
+
+  // Hetero groups (waters carry no bonds)
+  const hetResidues = new Map<string, Atom[]>();
+  for (const atom of atoms) {
+    if (!atom.hetflag || isWater(atom.resn)) continue;
+    const key = residueKey(atom);
+    if (!hetResidues.has(key)) hetResidues.set(key, []);
+    hetResidues.get(key)!.push(atom);
+  }
+
+  const compBond = block.categories.get('chem_comp_bond');
+  const templates = new Map<string, [string, string][]>();
+  for (let row = 0; compBond && row < compBond.rowCount; row++) {
+    const compId = value(compBond, 'comp_id', row);
+    if (!templates.has(compId)) templates.set(compId, []);
+    templates.get(compId)!.push([value(compBond, 'atom_id_1', row), value(compBond, 'atom_id_2', row)]);
+  }
+
+  for (const residueAtoms of hetResidues.values()) {
+    const template = templates.get(residueAtoms[0].resn);
+    if (template) {
+      const byName = new Map(residueAtoms.map(atom => [atom.atomName, atom]));
+      for (const [name1, name2] of template) {
+        const a = byName.get(name1);
+        const b = byName.get(name2);
+        if (a && b) addBond(a.serial, b.serial);
+      }
+    } else {
+      for (const [serial, neighbors] of inferBonds(residueAtoms)) {
+        for (const neighbor of neighbors) addBond(serial, neighbor.serial);
+      }
+    }
+  }
+
+  // Connections between residues (only those within the asymmetric unit)
+  const bySite = new Map<string, Atom>();
+  for (const atom of atoms) {
+    const key = `${residueKey(atom)}:${atom.atomName}`;
+    if (!bySite.has(key)) bySite.set(key, atom);
+  }
+  for (const { partners, symmetry } of readConnections(block)) {
+    if (symmetry.some(op => op && op !== '1555')) continue;
+    const a = bySite.get(`${residueKey(partners[0])}:${partners[0].atomName}`);
+    const b = bySite.get(`${residueKey(partners[1])}:${partners[1].atomName}`);
+    if (a && b && (a.hetflag || b.hetflag)) addBond(a.serial, b.serial);
+  }
+
+  // 7-11 serial, then up to four bonded serials per record
+  const lines: string[] = [];
+  for (const serial of Array.from(bonds.keys()).sort((a, b) => a - b)) {
+    const partners = Array.from(bonds.get(serial)!).sort((a, b) => a - b);
+    for (let start = 0; start < partners.length; start += 4) {
+      lines.push(pdbLine(
+        'CONECT' + encodeHybrid36(5, serial) + partners.slice(start, start + 4).map(p => encodeHybrid36(5, p)).join('')
+      ));
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,508 @@
+/**
+ * PDB to mmCIF Converter Utility
+ * Reads ATOM/HETATM, HEADER, TITLE, CRYST1, SEQRES, HETNAM and CONECT records and writes
+ * mmCIF with atom_site, entity, struct_asym and chem_comp (plus cell, symmetry and struct_conn)
+ */
+
+import { Atom } from '../types/interaction';
+import { METAL_ELEMENTS, parseAtomLine, residueKey } from '../analysis/pdbParser';
+import { decodeHybrid36 } from './hybrid36';
+import { writeCifCategory } from './cif';
+import { isWater } from '../analysis/ligandClasses';
+
+export interface PDBConversionResult {
+  success: boolean;
+  mmcifContent?: string;
+  error?: string;
+  stats?: {
+    atomCount: number;
+    chainCount: number;
+    residueCount: number;
+    entityCount: number;
+    modelCount: number;
+    hasLigands: boolean;
+  };
+}
+
+export interface PDBConversionOptions {
+  // Entry ID and data block name; defaults to the HEADER ID code
+  entryId?: string;
+}
+
+const AMINO_ACIDS = new Set([
+  'ALA', 'ARG', 'ASN', 'ASP', 'CYS', 'GLN', 'GLU', 'GLY', 'HIS', 'ILE',
+  'LEU', 'LYS', 'MET', 'PHE', 'PRO', 'SER', 'THR', 'TRP', 'TYR', 'VAL',
+  'MSE', 'SEC', 'PYL', 'UNK',
+]);
+const DNA_NUCLEOTIDES = new Set(['DA', 'DC', 'DG', 'DT', 'DI', 'DU']);
+const RNA_NUCLEOTIDES = new Set(['A', 'C', 'G', 'U', 'I']);
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// An ATOM/HETATM record with the columns parseAtomLine does not keep
+interface PdbAtom extends Atom {
+  model: number;
+  occupancy: number;
+  tempFactor: number;
+}
+
+// Everything read from the PDB file
+interface PdbContent {
+  atoms: PdbAtom[];
+  idCode: string;
+  classification: string;
+  depositionDate: string;
+  title: string;
+  cryst1: string | null;
+  seqres: Map<string, string[]>;
+  hetnam: Map<string, string>;
+  conect: [number, number][];
+}
+
+// Entity and asym assignment of one residue
+interface ResidueAssignment {
+  entityId: string;
+  asymId: string;
+  seqId: number | null;
+}
+
+/**
+ * Convert a PDB date (DD-MMM-YY) to an mmCIF date (YYYY-MM-DD); the PDB archive starts in 1971
+ */
+function parseDepositionDate(date: string): string {
+  const match = /^(\d{2})-([A-Z]{3})-(\d{2})$/.exec(date);
+  const month = match ? MONTHS.indexOf(match[2]) + 1 : 0;
+  if (!match || month === 0) return '';
+  const year = parseInt(match[3]) >= 70 ? `19${match[3]}` : `20${match[3]}`;
+  return `${year}-${String(month).padStart(2, '0')}-${match[1]}`;
+}
+
+/**
+ * Read the records the converter uses
+ * Atoms keep their model number; CONECT serials refer to the first model
+ */
+function readPdb(pdbContent: string): PdbContent {
+  const content: PdbContent = {
+    atoms: [],
+    idCode: '',
+    classification: '',
+    depositionDate: '',
+    title: '',
+    cryst1: null,
+    seqres: new Map(),
+    hetnam: new Map(),
+    conect: [],
+  };
+  let model = 1;
+  let modelCount = 0;
+
+  for (const line of pdbContent.split(/\r?\n/)) {
+    const record = line.substring(0, 6).trim();
+
+    if (record === 'MODEL') {
+      model = parseInt(line.substring(10, 14)) || ++modelCount;
+      modelCount = model;
+    } else if (record === 'ATOM' || record === 'HETATM') {
+      const atom = parseAtomLine(line);
+      if (!atom || isNaN(atom.x) || isNaN(atom.y) || isNaN(atom.z)) continue;
+      const occupancy = parseFloat(line.substring(54, 60));
+      const tempFactor = parseFloat(line.substring(60, 66));
+      content.atoms.push({
+        ...atom,
+        model,
+        occupancy: isNaN(occupancy) ? 1 : occupancy,
+        tempFactor: isNaN(tempFactor) ? 0 : tempFactor,
+      });
+    } else if (record === 'HEADER') {
+      content.classification = line.substring(10, 50).trim();
+      content.depositionDate = parseDepositionDate(line.substring(50, 59).trim());
+      content.idCode = line.substring(62, 66).trim();
+    } else if (record === 'TITLE') {
+      // Continuation lines start with a space in column 11
+      content.title = `${content.title} ${line.substring(10, 80).trim()}`.trim();
+    } else if (record === 'CRYST1') {
+      content.cryst1 = line;
+    } else if (record === 'SEQRES') {
+      const chain = line.substring(10, 12).trim();
+      if (!content.seqres.has(chain)) content.seqres.set(chain, []);
+      content.seqres.get(chain)!.push(...line.substring(19, 70).trim().split(/\s+/).filter(Boolean));
+    } else if (record === 'HETNAM') {
+      const hetId = line.substring(11, 14).trim();
+      const text = line.substring(15, 70).trim();
+      const previous = content.hetnam.get(hetId);
+      // Continuation text follows directly when the previous line ended with a hyphen
+      content.hetnam.set(hetId, previous ? (previous.endsWith('-') ? previous + text : `${previous} ${text}`) : text);
+    } else if (record === 'CONECT') {
+      const serial = decodeHybrid36(5, line.substring(6, 11));
+      for (let start = 11; start + 5 <= Math.min(line.trimEnd().length, 31); start += 5) {
+        const partner = decodeHybrid36(5, line.substring(start, start + 5));
+        if (!isNaN(serial) && !isNaN(partner)) content.conect.push([serial, partner]);
+      }
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Label asym IDs in wwPDB order: A..Z, then AA, BA, CA..
+ */
+function asymIdFor(index: number): string {
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  let id = '';
+  let n = index;
+  do {
+    id += letters[n % 26];
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return id;
+}
+
+function polymerType(sequence: string[]): string {
+  if (sequence.some(resn => AMINO_ACIDS.has(resn))) return 'polypeptide(L)';
+  if (sequence.some(resn => DNA_NUCLEOTIDES.has(resn))) return 'polydeoxyribonucleotide';
+  if (sequence.some(resn => RNA_NUCLEOTIDES.has(resn))) return 'polyribonucleotide';
+  return 'other';
+}
+
+function chemCompType(resn: string, polymer: boolean): string {
+  if (AMINO_ACIDS.has(resn)) return resn === 'GLY' ? 'peptide linking' : 'L-peptide linking';
+  if (DNA_NUCLEOTIDES.has(resn)) return 'DNA linking';
+  if (RNA_NUCLEOTIDES.has(resn)) return 'RNA linking';
+  return polymer ? 'L-peptide linking' : 'non-polymer';
+}
+
+/**
+ * Match observed residues to SEQRES positions in order
+ * Each residue takes the next position with the same name, preferring the one its numbering gap predicts;
+ * returns null when the residues do not follow SEQRES
+ */
+function alignToSequence(residues: PdbAtom[], sequence: string[]): number[] | null {
+  const seqIds: number[] = [];
+  let position = 0;
+  let previous: PdbAtom | null = null;
+
+  for (const residue of residues) {
+    const gap = previous ? Math.max(0, residue.resi - previous.resi - 1) : 0;
+    const expected = position + gap;
+    let match = expected < sequence.length && sequence[expected] === residue.resn ? expected : -1;
+    if (match === -1) {
+      match = sequence.indexOf(residue.resn, position);
+    }
+    if (match === -1) return null;
+
+    seqIds.push(match + 1);
+    position = match + 1;
+    previous = residue;
+  }
+
+  return seqIds;
+}
+
+/**
+ * Convert PDB content to mmCIF
+ */
+export async function convertPDBToMMCIF(
+  pdbContent: string,
+  options: PDBConversionOptions = {}
+): Promise<PDBConversionResult> {
+  try {
+    const pdb = readPdb(pdbContent);
+    if (pdb.atoms.length === 0) {
+      throw new Error('No ATOM/HETATM records found in PDB file');
+    }
+
+    const firstModel = pdb.atoms[0].model;
+    const modelAtoms = pdb.atoms.filter(atom => atom.model === firstModel);
+
+    // Residues of the first model in file order, one representative atom each, with their atom names
+    const residues = new Map<string, PdbAtom>();
+    const residueAtomNames = new Map<string, Set<string>>();
+    for (const atom of modelAtoms) {
+      const key = residueKey(atom);
+      if (!residues.has(key)) {
+        residues.set(key, atom);
+        residueAtomNames.set(key, new Set());
+      }
+      residueAtomNames.get(key)!.add(atom.atomName);
+    }
+
+    // Polymer residues: ATOM records, plus HETATM residues with an amino acid or nucleotide backbone
+    // (modified residues such as MSE) or named in the chain's SEQRES (caps such as ACE)
+    const isPolymer = (residue: PdbAtom) => {
+      if (isWater(residue.resn)) return false;
+      if (!residue.hetflag) return true;
+      const names = residueAtomNames.get(residueKey(residue))!;
+      const has = (name: string) => names.has(name);
+      return (has('N') && has('CA') && has('C')) || (has('P') && has('O3\'') && has('C1\'')) ||
+        (pdb.seqres.get(residue.chain)?.includes(residue.resn) ?? false);
+    };
+
+    const polymerChains = new Map<string, PdbAtom[]>();
+    const nonPolymers: PdbAtom[] = [];
+    const waters = new Map<string, PdbAtom[]>();
+    for (const residue of residues.values()) {
+      if (isWater(residue.resn)) {
+        if (!waters.has(residue.chain)) waters.set(residue.chain, []);
+        waters.get(residue.chain)!.push(residue);
+      } else if (isPolymer(residue)) {
+        if (!polymerChains.has(residue.chain)) polymerChains.set(residue.chain, []);
+        polymerChains.get(residue.chain)!.push(residue);
+      } else {
+        nonPolymers.push(residue);
+      }
+    }
+
+    const assignments = new Map<string, ResidueAssignment>();
+    const entities: { id: string; type: string; description: string; count: number }[] = [];
+    const entityPolys: { entityId: string; type: string; chains: string[]; sequence: string[] }[] = [];
+    const structAsym: { id: string; entityId: string }[] = [];
+    let asymIndex = 0;
+
+    // Polymer entities: chains with the same sequence share an entity
+    const entityBySequence = new Map<string, typeof entityPolys[number]>();
+    for (const [chain, chainResidues] of polymerChains) {
+      let sequence = pdb.seqres.get(chain) ?? [];
+      let seqIds = sequence.length > 0 ? alignToSequence(chainResidues, sequence) : null;
+      if (!seqIds) {
+        // No usable SEQRES: the observed residues are the sequence
+        sequence = chainResidues.map(residue => residue.resn);
+        seqIds = sequence.map((_, i) => i + 1);
+      }
+
+      const sequenceKey = sequence.join(' ');
+      let entityPoly = entityBySequence.get(sequenceKey);
+      if (!entityPoly) {
+        const entityId = String(entities.length + 1);
+        entityPoly = { entityId, type: polymerType(sequence), chains: [], sequence };
+        entityBySequence.set(sequenceKey, entityPoly);
+        entityPolys.push(entityPoly);
+        entities.push({ id: entityId, type: 'polymer', description: '?', count: 0 });
+      }
+      entityPoly.chains.push(chain);
+      entities[parseInt(entityPoly.entityId) - 1].count++;
+
+      const asymId = asymIdFor(asymIndex++);
+      structAsym.push({ id: asymId, entityId: entityPoly.entityId });
+      chainResidues.forEach((residue, i) => {
+        assignments.set(residueKey(residue), { entityId: entityPoly!.entityId, asymId, seqId: seqIds![i] });
+      });
+    }
+
+    // Non-polymer entities: one per chemical component, one asym per residue
+    const entityByComp = new Map<string, string>();
+    for (const residue of nonPolymers) {
+      let entityId = entityByComp.get(residue.resn);
+      if (!entityId) {
+        entityId = String(entities.length + 1);
+        entityByComp.set(residue.resn, entityId);
+        entities.push({ id: entityId, type: 'non-polymer', description: pdb.hetnam.get(residue.resn) ?? '?', count: 0 });
+      }
+      entities[parseInt(entityId) - 1].count++;
+
+      const asymId = asymIdFor(asymIndex++);
+      structAsym.push({ id: asymId, entityId });
+      assignments.set(residueKey(residue), { entityId, asymId, seqId: null });
+    }
+
+    // Water: a single entity, one asym per chain
+    if (waters.size > 0) {
+      const entityId = String(entities.length + 1);
+      entities.push({ id: entityId, type: 'water', description: 'water', count: waters.size });
+      for (const chainWaters of waters.values()) {
+        const asymId = asymIdFor(asymIndex++);
+        structAsym.push({ id: asymId, entityId });
+        for (const residue of chainWaters) {
+          assignments.set(residueKey(residue), { entityId, asymId, seqId: null });
+        }
+      }
+    }
+
+    // Chemical components, in order of first appearance
+    const chemComps = new Map<string, { type: string; name: string }>();
+    for (const entityPoly of entityPolys) {
+      for (const resn of entityPoly.sequence) {
+        if (!chemComps.has(resn)) {
+          chemComps.set(resn, { type: chemCompType(resn, true), name: pdb.hetnam.get(resn) ?? '?' });
+        }
+      }
+    }
+    for (const residue of residues.values()) {
+      if (!chemComps.has(residue.resn)) {
+        const polymer = isPolymer(residue);
+        const name = isWater(residue.resn) ? 'WATER' : pdb.hetnam.get(residue.resn) ?? '?';
+        chemComps.set(residue.resn, { type: chemCompType(residue.resn, polymer), name });
+      }
+    }
+
+    // Without an ID code the entry stays unnamed (entry_id ?); only the data block needs a name
+    const entryId = (options.entryId || pdb.idCode).replace(/\s+/g, '_');
+    const sections: string[] = [`data_${entryId || 'structure'}\n#\n`];
+    const write = (name: string, fields: [string, string[]][]) => sections.push(writeCifCategory(name, fields));
+
+    if (entryId) {
+      write('entry', [['id', [entryId]]]);
+    }
+    if (pdb.classification) {
+      write('struct_keywords', [['entry_id', [entryId]], ['pdbx_keywords', [pdb.classification]]]);
+    }
+    if (pdb.depositionDate) {
+      write('pdbx_database_status', [
+        ['entry_id', [entryId]],
+        ['recvd_initial_deposition_date', [pdb.depositionDate]],
+      ]);
+    }
+    if (pdb.title) {
+      write('struct', [['entry_id', [entryId]], ['title', [pdb.title]]]);
+    }
+
+    // 7-15 a, 16-24 b, 25-33 c, 34-40 alpha, 41-47 beta, 48-54 gamma, 56-66 space group, 67-70 Z
+    if (pdb.cryst1) {
+      const line = pdb.cryst1;
+      write('cell', [
+        ['entry_id', [entryId]],
+        ['length_a', [line.substring(6, 15).trim()]],
+        ['length_b', [line.substring(15, 24).trim()]],
+        ['length_c', [line.substring(24, 33).trim()]],
+        ['angle_alpha', [line.substring(33, 40).trim()]],
+        ['angle_beta', [line.substring(40, 47).trim()]],
+        ['angle_gamma', [line.substring(47, 54).trim()]],
+        ['Z_PDB', [line.substring(66, 70).trim()]],
+      ]);
+      write('symmetry', [
+        ['entry_id', [entryId]],
+        ['space_group_name_H-M', [line.substring(55, 66).trim()]],
+      ]);
+    }
+
+    write('entity', [
+      ['id', entities.map(entity => entity.id)],
+      ['type', entities.map(entity => entity.type)],
+      ['pdbx_description', entities.map(entity => entity.description)],
+      ['pdbx_number_of_molecules', entities.map(entity => String(entity.count))],
+    ]);
+
+    if (entityPolys.length > 0) {
+      write('entity_poly', [
+        ['entity_id', entityPolys.map(poly => poly.entityId)],
+        ['type', entityPolys.map(poly => poly.type)],
+        ['pdbx_strand_id', entityPolys.map(poly => poly.chains.join(','))],
+      ]);
+
+      const seqRows = entityPolys.flatMap(poly => poly.sequence.map((resn, i) => [poly.entityId, String(i + 1), resn]));
+      write('entity_poly_seq', [
+        ['entity_id', seqRows.map(row => row[0])],
+        ['num', seqRows.map(row => row[1])],
+        ['mon_id', seqRows.map(row => row[2])],
+        ['hetero', seqRows.map(() => 'n')],
+      ]);
+    }
+
+    write('struct_asym', [
+      ['id', structAsym.map(asym => asym.id)],
+      ['entity_id', structAsym.map(asym => asym.entityId)],
+    ]);
+
+    write('chem_comp', [
+      ['id', Array.from(chemComps.keys())],
+      ['type', Array.from(chemComps.values()).map(comp => comp.type)],
+      ['name', Array.from(chemComps.values()).map(comp => comp.name)],
+    ]);
+
+    // Connections between residues from CONECT (first model)
+    const bySerial = new Map(modelAtoms.map(atom => [atom.serial, atom]));
+    const seenBonds = new Set<string>();
+    const connRows: string[][] = [];
+    for (const [serial1, serial2] of pdb.conect) {
+      const a = bySerial.get(serial1);
+      const b = bySerial.get(serial2);
+      if (!a || !b || residueKey(a) === residueKey(b)) continue;
+      const bondKey = serial1 < serial2 ? `${serial1}-${serial2}` : `${serial2}-${serial1}`;
+      if (seenBonds.has(bondKey)) continue;
+      seenBonds.add(bondKey);
+
+      const type = METAL_ELEMENTS.has(a.element) || METAL_ELEMENTS.has(b.element) ? 'metalc' : 'covale';
+      const distance = Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+      const partner = (atom: PdbAtom) => {
+        const assignment = assignments.get(residueKey(atom))!;
+        return [
+          assignment.asymId,
+          atom.resn,
+          assignment.seqId === null ? '.' : String(assignment.seqId),
+          atom.atomName,
+          atom.altLoc || '?',
+          atom.iCode || '?',
+          atom.chain || '?',
+          String(atom.resi),
+          '1_555',
+        ];
+      };
+      connRows.push([`${type}${connRows.filter(row => row[1] === type).length + 1}`, type, ...partner(a), ...partner(b), distance.toFixed(2)]);
+    }
+
+    if (connRows.length > 0) {
+      const partnerFields = (n: 1 | 2) => [
+        `ptnr${n}_label_asym_id`, `ptnr${n}_label_comp_id`, `ptnr${n}_label_seq_id`, `ptnr${n}_label_atom_id`,
+        `pdbx_ptnr${n}_label_alt_id`, `pdbx_ptnr${n}_PDB_ins_code`, `ptnr${n}_auth_asym_id`, `ptnr${n}_auth_seq_id`,
+        `ptnr${n}_symmetry`,
+      ];
+      const names = ['id', 'conn_type_id', ...partnerFields(1), ...partnerFields(2), 'pdbx_dist_value'];
+      write('struct_conn', names.map((name, column) => [name, connRows.map(row => row[column])]));
+    }
+
+    // Atoms of every model; residues missing from the first model fall back to their chain's assignment
+    const atomRows = pdb.atoms.map((atom, index) => {
+      const assignment = assignments.get(residueKey(atom)) ??
+        { entityId: '?', asymId: atom.chain || '?', seqId: null };
+      return [
+        atom.hetflag ? 'HETATM' : 'ATOM',
+        String(index + 1),
+        atom.element.toUpperCase(),
+        atom.atomName,
+        atom.altLoc || '.',
+        atom.resn,
+        assignment.asymId,
+        assignment.entityId,
+        assignment.seqId === null ? '.' : String(assignment.seqId),
+        atom.iCode || '?',
+        atom.x.toFixed(3),
+        atom.y.toFixed(3),
+        atom.z.toFixed(3),
+        atom.occupancy.toFixed(2),
+        atom.tempFactor.toFixed(2),
+        atom.formalCharge === undefined ? '?' : String(atom.formalCharge),
+        String(atom.resi),
+        atom.resn,
+        atom.chain || '?',
+        atom.atomName,
+        String(atom.model),
+      ];
+    });
+    const atomFields = [
+      'group_PDB', 'id', 'type_symbol', 'label_atom_id', 'label_alt_id', 'label_comp_id', 'label_asym_id',
+      'label_entity_id', 'label_seq_id', 'pdbx_PDB_ins_code', 'Cartn_x', 'Cartn_y', 'Cartn_z', 'occupancy',
+      'B_iso_or_equiv', 'pdbx_formal_charge', 'auth_seq_id', 'auth_comp_id', 'auth_asym_id', 'auth_atom_id',
+      'pdbx_PDB_model_num',
+    ];
+    write('atom_site', atomFields.map((name, column) => [name, atomRows.map(row => row[column])]));
+
+    const chains = new Set(modelAtoms.map(atom => atom.chain));
+    return {
+      success: true,
+      mmcifContent: sections.join(''),
+      stats: {
+        atomCount: pdb.atoms.length,
+        chainCount: chains.size,
+        residueCount: residues.size,
+        entityCount: entities.length,
+        modelCount: new Set(pdb.atoms.map(atom => atom.model)).size,
+        hasLigands: nonPolymers.length > 0,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
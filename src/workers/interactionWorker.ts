@@ -0,0 +1,45 @@
+/**
+ * Web Worker for molecular interaction analysis
+ * Runs the shared analysis engine off the main thread
+ */
+
+import { ProgressUpdate, WorkerRequest, WorkerResponse } from '../types/interaction';
+import { analyzeStructure } from '../analysis/analyze';
+import { analyzeInterface } from '../analysis/interface';
+
+// Typed as a Worker so postMessage/onmessage use the worker-side signatures
+const ctx = self as unknown as Worker;
+
+function post(response: WorkerResponse) {
+  ctx.postMessage(response);
+}
+
+ctx.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { type, content, format, filename, params, pae, chainGroups } = e.data;
+
+  if (type !== 'analyze' && type !== 'interface') {
+    post({ type: 'error', error: 'Unknown message type' });
+    return;
+  }
+
+  try {
+    const data = typeof content === 'string' ? content : new Uint8Array(content);
+    const onProgress = (update: ProgressUpdate) => post({ type: 'progress', data: update });
+
+    if (type === 'interface' && !chainGroups) {
+      throw new Error('Interface analysis needs receptor and partner chains');
+    }
+    const result = type === 'interface'
+      ? analyzeInterface(data, format, filename, params, chainGroups!, onProgress)
+      : analyzeStructure(data, format, filename, params, onProgress, pae);
+
+    post({ type: 'result', data: result });
+  } catch (error) {
+    console.error('Worker error:', error);
+    post({
+      type: 'error',
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+};